@@ -25,10 +25,26 @@
  */
 
 module powerbi.extensibility.visual {
+    import IValueFormatter = powerbi.extensibility.utils.formatting.IValueFormatter;
+    import valueFormatter = powerbi.extensibility.utils.formatting.valueFormatter;
+    import DisplayUnitSystemType = powerbi.extensibility.utils.formatting.DisplayUnitSystemType;
 
     export interface IDualKpiDataPoint {
         date: Date;
         value: number;
+        target?: number;
+        comparison?: number;
+        lowerBound?: number;
+        upperBound?: number;
+        anomaly?: IAnomaly;
+        // value synthesized by the missing values setting rather than read from data
+        filled?: boolean;
+    }
+
+    // expected range a point fell outside of, either bound may be missing when it comes from data
+    export interface IAnomaly {
+        lower: number;
+        upper: number;
     }
 
     export interface IDualKpiData {
@@ -39,7 +55,26 @@ module powerbi.extensibility.visual {
         bottomValues: Array<IDualKpiDataPoint>;
         topValueAsPercent: boolean;
         bottomValueAsPercent: boolean;
+        topValueFormat: IValueFormat;
+        bottomValueFormat: IValueFormat;
+        topValuesBound: boolean;
+        bottomValuesBound: boolean;
+        topHasTarget: boolean;
+        bottomHasTarget: boolean;
+        topHasComparison: boolean;
+        bottomHasComparison: boolean;
+        topPercentCalcDateBound: boolean;
+        bottomPercentCalcDateBound: boolean;
+        additionalSeries: Array<IDualKpiSeries>;
+        latestDate: Date;
+        topLatestDate: Date;
+        bottomLatestDate: Date;
+        asOfDate: Date;
+        droppedRowCount: number;
+        diagnostics: Array<string>;
         warningState: number;
+        topWarningState: number;
+        bottomWarningState: number;
 
         // formatting pane
         title: string;
@@ -50,12 +85,26 @@ module powerbi.extensibility.visual {
         showStaleDataWarning: boolean;
         staleDataTooltipText: string;
         staleDataThreshold: number;
+        staleDataUnit: string;
+        weekend: string;
         topPercentCalcDate: Date;
         bottomPercentCalcDate: Date;
+        topPercentCalcEndDate: Date;
+        bottomPercentCalcEndDate: Date;
+        percentCalcDateAnchor: string;
 
         dataColor: string;
         textColor: string;
         opacity: number;
+        bottomDataColor: string;
+        bottomTextColor: string;
+        bottomOpacity: number;
+        topLineWidth: number;
+        bottomLineWidth: number;
+        topGradient: boolean;
+        bottomGradient: boolean;
+        topBelowZeroColor: string;
+        bottomBelowZeroColor: string;
 
         topChartAxisMin: number;
         topChartAxisMax: number;
@@ -64,9 +113,181 @@ module powerbi.extensibility.visual {
         topChartZeroLine: boolean;
         bottomChartZeroLine: boolean;
 
-
         topChartType: string;
         bottomChartType: string;
+        layout: string;
+        showMinMarker: boolean;
+        showMaxMarker: boolean;
+        showLatestMarker: boolean;
+
+        topComparisonType: string;
+        bottomComparisonType: string;
+
+        syncBrush: boolean;
+        clickToSetPercentDate: boolean;
+
+        errorThreshold: number;
+        warningThreshold: number;
+        errorColor: string;
+        warningColor: string;
+        okColor: string;
+        warningLevelTooltipText: string;
+        okTooltipText: string;
+        showOkState: boolean;
+
+        colorRule: string;
+        topPolarity: string;
+        bottomPolarity: string;
+        topGoodThreshold: number;
+        topBadThreshold: number;
+        bottomGoodThreshold: number;
+        bottomBadThreshold: number;
+        goodColor: string;
+        badColor: string;
+        colorValue: boolean;
+        colorPercentChange: boolean;
+        colorSeries: boolean;
+        showArrows: boolean;
+
+        granularity: string;
+        aggregation: string;
+        topMissingValues: string;
+        bottomMissingValues: string;
+        duplicateAggregation: string;
+        showDiagnostics: boolean;
+
+        topDisplayUnits: string;
+        bottomDisplayUnits: string;
+        topDecimalPlaces: number;
+        bottomDecimalPlaces: number;
+
+        hoverDateFormat: string;
+        hoverDateCustomFormat: string;
+        tooltipDateFormat: string;
+        tooltipDateCustomFormat: string;
+        dateRangeFormat: string;
+
+        topTrendLine: string;
+        bottomTrendLine: string;
+        topMovingAverage: string;
+        bottomMovingAverage: string;
+        topMovingAveragePeriods: number;
+        bottomMovingAveragePeriods: number;
+        topProjection: string;
+        bottomProjection: string;
+
+        topHasBand: boolean;
+        bottomHasBand: boolean;
+        showAnomalies: boolean;
+        anomalyWindow: number;
+        anomalyDeviations: number;
+        anomalyColor: string;
+    }
+
+    // the column format string applied through the Power BI value formatter
+    export interface IValueFormat {
+        format: string;
+        valueAsPercent: boolean;
+        // Power BI display unit value, 0 picks the unit from the data and 1 shows whole values
+        displayUnits: number;
+        // formatting pane override of the decimals, null when not set
+        decimalPlaces: number;
+        formatter: IValueFormatter;
+    }
+
+    // the locale is passed by newer hosts but isn't part of the 1.3 host typings
+    export interface ILocaleHost {
+        locale?: string;
+    }
+
+    // templates use {0}, {1} placeholders filled in by DualKpi.formatString
+    export interface IDualKpiStrings {
+        notApplicable: string;
+        since: string;
+        changeSince: string;
+        changeRange: string;
+        dateRange: string;
+        lastPeriods: string;
+        days: string;
+        weeks: string;
+        months: string;
+        quarters: string;
+        years: string;
+        weekOf: string;
+        quarter: string;
+        seriesAge: string;
+        hoursOld: string;
+        daysOld: string;
+        businessDaysOld: string;
+        comparedTo: string;
+        versusTarget: string;
+        setPercentDate: string;
+        droppedRow: string;
+        droppedRows: string;
+        // the date expression keywords such as "start of month" are parsed in English only, so they stay untranslated
+        invalidDateExpression: string;
+        trend: string;
+        movingAverage: string;
+        projected: string;
+        anomaly: string;
+        anomalies: string;
+        aboveExpected: string;
+        belowExpected: string;
+    }
+
+    export interface IDualKpiLocalization {
+        locale: string;
+        strings: IDualKpiStrings;
+        // percent changes with one decimal, e.g. "12,3 %" for French
+        percentFormat: Intl.NumberFormat;
+    }
+
+    // a measure bound to the additional KPI values role, drawn as its own chart after the top and bottom charts
+    export interface IDualKpiSeries {
+        name: string;
+        queryName: string;
+        values: Array<IDualKpiDataPoint>;
+        latestDate: Date;
+        valueAsPercent: boolean;
+        format: string;
+        valueFormat: IValueFormat;
+        chartType: string;
+        dataColor: string;
+        lineWidth: number;
+        zeroLine: boolean;
+        polarity: string;
+        displayUnits: string;
+        decimalPlaces: number;
+        missingValues: string;
+        gradient: boolean;
+        belowZeroColor: string;
+        // formatting pane expressions and the dates they resolve to
+        percentCalcDateExpression: string;
+        percentCalcEndDateExpression: string;
+        percentCalcDate: Date;
+        percentCalcEndDate: Date;
+        trendLine: string;
+        movingAverage: string;
+        movingAveragePeriods: number;
+        projection: string;
+    }
+
+    export interface IDateRange {
+        start: Date;
+        end: Date;
+    }
+
+    export interface IMargin {
+        top: number;
+        right: number;
+        bottom: number;
+        left: number;
+    }
+
+    // least squares fit of the values against time in milliseconds
+    export interface ILinearTrend {
+        slope: number;
+        intercept: number;
     }
 
     export interface IAxisConfig {
@@ -81,21 +302,62 @@ module powerbi.extensibility.visual {
         large
     };
 
+    export enum WarningLevel {
+        ok,
+        warning,
+        error
+    };
+
+    export enum KpiStatus {
+        bad,
+        neutral,
+        good
+    };
+
+    export interface IWarningLevelStyle {
+        icon: string;
+        color: string;
+        tooltipText: string;
+    }
+
     export type DualKpiSizeClass = "extra-small" | "small" | "medium" | "large";
 
     export interface IDualKpiOptions {
+        chartId: string;
         element: IChartGroup;
-        abbreviateValue: boolean;
         axisConfig: IAxisConfig;
         chartData: Array<IDualKpiDataPoint>,
         chartTitle: string;
         chartType: string;
+        dataColor: string;
+        textColor: string;
+        opacity: number;
+        lineWidth: number;
+        gradient: boolean;
+        belowZeroColor: string;
         height: number;
         percentChangeStartPoint: IDualKpiDataPoint;
+        percentChangeEndPoint: IDualKpiDataPoint;
+        percentCalcDateProperty: string;
+        polarity: string;
+        goodThreshold: number;
+        badThreshold: number;
+        showPercentChangeRange: boolean;
+        showComparison: boolean;
+        showTarget: boolean;
         showZeroLine: boolean;
+        trendLine: string;
+        movingAverage: string;
+        movingAveragePeriods: number;
+        projection: string;
         tooltipText: string;
+        warningLevel: WarningLevel;
         top: number;
+        left: number;
+        hoverTop: number;
+        hoverBottom: number;
         valueAsPercent: boolean;
+        valueFormat: IValueFormat;
         width: number;
     }
 
@@ -105,11 +367,17 @@ module powerbi.extensibility.visual {
         title: d3.Selection<SVGElement>;
     }
 
+    export interface ICountGroup extends IGroup {
+        count: d3.Selection<SVGElement>;
+    }
+
     export interface IBottomContainer {
         bottomContainer: d3.Selection<SVGElement>;
         chartTitleElement: d3.Selection<SVGElement>;
         warning: IGroup,
         info: IGroup,
+        diagnostic: ICountGroup,
+        anomaly: ICountGroup,
         dateRangeText: d3.Selection<SVGElement>;
     }
 
@@ -123,7 +391,10 @@ module powerbi.extensibility.visual {
     export interface IChartOverlay {
         group: d3.Selection<SVGElement>;
         title: d3.Selection<SVGElement>;
+        warning: IGroup;
         text: d3.Selection<SVGElement>;
+        targetText: d3.Selection<SVGElement>;
+        projectionText: d3.Selection<SVGElement>;
         rect: d3.Selection<SVGElement>;
         rectTitle: d3.Selection<SVGElement>;
     }
@@ -131,11 +402,22 @@ module powerbi.extensibility.visual {
     export interface IChartGroup {
         group: d3.Selection<SVGElement>;
         area: d3.Selection<SVGElement>;
+        markers: d3.Selection<SVGElement>;
+        gradient: d3.Selection<SVGElement>;
+        gradientId: string;
+        comparisonLine: d3.Selection<SVGElement>;
+        targetLine: d3.Selection<SVGElement>;
+        brushRect: d3.Selection<SVGElement>;
         yAxis: d3.Selection<SVGElement>;
         hoverLine: d3.Selection<SVGElement>;
         hoverDataContainer: IHoverDataContainer,
         chartOverlay: IChartOverlay,
         zeroAxis: d3.Selection<SVGElement>;
+        trendLine: d3.Selection<SVGElement>;
+        movingAverageLine: d3.Selection<SVGElement>;
+        projectionLine: d3.Selection<SVGElement>;
+        pointMarkers: d3.Selection<SVGElement>;
+        anomalyMarkers: d3.Selection<SVGElement>;
     }
 
     export class DualKpi implements IVisual {
@@ -149,12 +431,23 @@ module powerbi.extensibility.visual {
             showStaleDataWarning: true,
             staleDataTooltipText: "",
             staleDataThreshold: 2,
+            staleDataUnit: "days",
+            weekend: "saturdaySunday",
             topPercentCalcDate: null,
             bottomPercentCalcDate: null,
+            topPercentCalcEndDate: null,
+            bottomPercentCalcEndDate: null,
+            percentCalcDateAnchor: "latestData",
 
             dataColor: "#01b8aa",
             textColor: "#212121",
             opacity: 30,
+            topLineWidth: 2,
+            bottomLineWidth: 2,
+            topGradient: false,
+            bottomGradient: false,
+            topBelowZeroColor: null,
+            bottomBelowZeroColor: null,
 
             topChartAxisMin: null,
             topChartAxisMax: null,
@@ -164,7 +457,99 @@ module powerbi.extensibility.visual {
             bottomChartZeroLine: false,
 
             topChartType: "area",
-            bottomChartType: "area"
+            bottomChartType: "area",
+            layout: "vertical",
+            showMinMarker: false,
+            showMaxMarker: false,
+            showLatestMarker: false,
+
+            seriesChartType: "area",
+            seriesLineWidth: 2,
+            seriesZeroLine: false,
+            seriesPolarity: "higherIsBetter",
+            seriesDisplayUnits: "auto",
+            seriesDecimalPlaces: null,
+            seriesMissingValues: "gap",
+            seriesGradient: false,
+            seriesBelowZeroColor: null,
+            seriesPercentCalcDate: null,
+            seriesPercentCalcEndDate: null,
+            seriesTrendLine: "none",
+            seriesMovingAverage: "none",
+            seriesMovingAveragePeriods: 7,
+            seriesProjection: "none",
+
+            topComparisonType: "none",
+            bottomComparisonType: "none",
+
+            syncBrush: false,
+            clickToSetPercentDate: true,
+
+            errorThreshold: 0,
+            warningThreshold: 0,
+            errorColor: "#E81123",
+            warningColor: "#E66C37",
+            okColor: "#1AAB40",
+            warningLevelTooltipText: "",
+            okTooltipText: "",
+            showOkState: false,
+
+            colorRule: "off",
+            topPolarity: "higherIsBetter",
+            bottomPolarity: "higherIsBetter",
+            topGoodThreshold: null,
+            topBadThreshold: null,
+            bottomGoodThreshold: null,
+            bottomBadThreshold: null,
+            goodColor: "#1AAB40",
+            badColor: "#E81123",
+            colorValue: true,
+            colorPercentChange: true,
+            colorSeries: false,
+            showArrows: false,
+
+            granularity: "none",
+            aggregation: "sum",
+            topMissingValues: "gap",
+            bottomMissingValues: "gap",
+            duplicateAggregation: "sum",
+            showDiagnostics: true,
+
+            topDisplayUnits: "auto",
+            bottomDisplayUnits: "auto",
+            topDecimalPlaces: null,
+            bottomDecimalPlaces: null,
+
+            hoverDateFormat: "auto",
+            hoverDateCustomFormat: "",
+            tooltipDateFormat: "auto",
+            tooltipDateCustomFormat: "",
+            dateRangeFormat: "lastPeriods",
+
+            topTrendLine: "none",
+            bottomTrendLine: "none",
+            topMovingAverage: "none",
+            bottomMovingAverage: "none",
+            topMovingAveragePeriods: 7,
+            bottomMovingAveragePeriods: 7,
+            topProjection: "none",
+            bottomProjection: "none",
+
+            showAnomalies: false,
+            anomalyWindow: 14,
+            anomalyDeviations: 3,
+            anomalyColor: "#FD625E"
+        };
+
+        // formatting pane display names as in capabilities.json, messages refer to the settings by these untranslated names
+        private static settingDisplayNames = {
+            topPercentCalcDate: "Top - % change start date",
+            bottomPercentCalcDate: "Bottom - % change start date",
+            topPercentCalcEndDate: "Top - % change end date",
+            bottomPercentCalcEndDate: "Bottom - % change end date",
+            // prefixed with the measure name
+            seriesPercentCalcDate: "% change start date",
+            seriesPercentCalcEndDate: "% change end date"
         };
 
         private static properties = {
@@ -176,12 +561,26 @@ module powerbi.extensibility.visual {
             showStaleDataWarning: { objectName: "dualKpiProperties", propertyName: "showStaleDataWarning" },
             staleDataTooltipText: { objectName: "dualKpiProperties", propertyName: "staleDataTooltipText" },
             staleDataThreshold: { objectName: "dualKpiProperties", propertyName: "staleDataThreshold" },
+            staleDataUnit: { objectName: "dualKpiProperties", propertyName: "staleDataUnit" },
+            weekend: { objectName: "dualKpiProperties", propertyName: "weekend" },
             topPercentCalcDate: { objectName: "dualKpiProperties", propertyName: "topPercentCalcDate" },
             bottomPercentCalcDate: { objectName: "dualKpiProperties", propertyName: "bottomPercentCalcDate" },
+            topPercentCalcEndDate: { objectName: "dualKpiProperties", propertyName: "topPercentCalcEndDate" },
+            bottomPercentCalcEndDate: { objectName: "dualKpiProperties", propertyName: "bottomPercentCalcEndDate" },
+            percentCalcDateAnchor: { objectName: "dualKpiProperties", propertyName: "percentCalcDateAnchor" },
 
             dataColor: { objectName: "dualKpiColors", propertyName: "dataColor" },
             textColor: { objectName: "dualKpiColors", propertyName: "textColor" },
             opacity: { objectName: "dualKpiColors", propertyName: "opacity" },
+            bottomDataColor: { objectName: "dualKpiColors", propertyName: "bottomDataColor" },
+            bottomTextColor: { objectName: "dualKpiColors", propertyName: "bottomTextColor" },
+            bottomOpacity: { objectName: "dualKpiColors", propertyName: "bottomOpacity" },
+            topLineWidth: { objectName: "dualKpiColors", propertyName: "topLineWidth" },
+            bottomLineWidth: { objectName: "dualKpiColors", propertyName: "bottomLineWidth" },
+            topGradient: { objectName: "dualKpiColors", propertyName: "topGradient" },
+            bottomGradient: { objectName: "dualKpiColors", propertyName: "bottomGradient" },
+            topBelowZeroColor: { objectName: "dualKpiColors", propertyName: "topBelowZeroColor" },
+            bottomBelowZeroColor: { objectName: "dualKpiColors", propertyName: "bottomBelowZeroColor" },
 
             topChartAxisMin: { objectName: "dualKpiAxis", propertyName: "topChartAxisMin" },
             topChartAxisMax: { objectName: "dualKpiAxis", propertyName: "topChartAxisMax" },
@@ -191,12 +590,99 @@ module powerbi.extensibility.visual {
             bottomChartZeroLine: { objectName: "dualKpiAxis", propertyName: "bottomChartZeroLine" },
 
             topChartType: { objectName: "dualKpiChart", propertyName: "topChartType" },
-            bottomChartType: { objectName: "dualKpiChart", propertyName: "bottomChartType" }
+            bottomChartType: { objectName: "dualKpiChart", propertyName: "bottomChartType" },
+            layout: { objectName: "dualKpiChart", propertyName: "layout" },
+            showMinMarker: { objectName: "dualKpiChart", propertyName: "showMinMarker" },
+            showMaxMarker: { objectName: "dualKpiChart", propertyName: "showMaxMarker" },
+            showLatestMarker: { objectName: "dualKpiChart", propertyName: "showLatestMarker" },
+
+            seriesChartType: { objectName: "dualKpiSeries", propertyName: "chartType" },
+            seriesDataColor: { objectName: "dualKpiSeries", propertyName: "dataColor" },
+            seriesLineWidth: { objectName: "dualKpiSeries", propertyName: "lineWidth" },
+            seriesZeroLine: { objectName: "dualKpiSeries", propertyName: "zeroLine" },
+            seriesPolarity: { objectName: "dualKpiSeries", propertyName: "polarity" },
+            seriesDisplayUnits: { objectName: "dualKpiSeries", propertyName: "displayUnits" },
+            seriesDecimalPlaces: { objectName: "dualKpiSeries", propertyName: "decimalPlaces" },
+            seriesMissingValues: { objectName: "dualKpiSeries", propertyName: "missingValues" },
+            seriesGradient: { objectName: "dualKpiSeries", propertyName: "gradient" },
+            seriesBelowZeroColor: { objectName: "dualKpiSeries", propertyName: "belowZeroColor" },
+            seriesPercentCalcDate: { objectName: "dualKpiSeries", propertyName: "percentCalcDate" },
+            seriesPercentCalcEndDate: { objectName: "dualKpiSeries", propertyName: "percentCalcEndDate" },
+            seriesTrendLine: { objectName: "dualKpiSeries", propertyName: "trendLine" },
+            seriesMovingAverage: { objectName: "dualKpiSeries", propertyName: "movingAverage" },
+            seriesMovingAveragePeriods: { objectName: "dualKpiSeries", propertyName: "movingAveragePeriods" },
+            seriesProjection: { objectName: "dualKpiSeries", propertyName: "projection" },
+
+            topComparisonType: { objectName: "dualKpiComparison", propertyName: "topComparisonType" },
+            bottomComparisonType: { objectName: "dualKpiComparison", propertyName: "bottomComparisonType" },
+
+            syncBrush: { objectName: "dualKpiInteractions", propertyName: "syncBrush" },
+            clickToSetPercentDate: { objectName: "dualKpiInteractions", propertyName: "clickToSetPercentDate" },
+
+            errorThreshold: { objectName: "dualKpiWarningStates", propertyName: "errorThreshold" },
+            warningThreshold: { objectName: "dualKpiWarningStates", propertyName: "warningThreshold" },
+            errorColor: { objectName: "dualKpiWarningStates", propertyName: "errorColor" },
+            warningColor: { objectName: "dualKpiWarningStates", propertyName: "warningColor" },
+            okColor: { objectName: "dualKpiWarningStates", propertyName: "okColor" },
+            warningLevelTooltipText: { objectName: "dualKpiWarningStates", propertyName: "warningLevelTooltipText" },
+            okTooltipText: { objectName: "dualKpiWarningStates", propertyName: "okTooltipText" },
+            showOkState: { objectName: "dualKpiWarningStates", propertyName: "showOkState" },
+
+            colorRule: { objectName: "dualKpiConditionalFormatting", propertyName: "colorRule" },
+            topPolarity: { objectName: "dualKpiConditionalFormatting", propertyName: "topPolarity" },
+            bottomPolarity: { objectName: "dualKpiConditionalFormatting", propertyName: "bottomPolarity" },
+            topGoodThreshold: { objectName: "dualKpiConditionalFormatting", propertyName: "topGoodThreshold" },
+            topBadThreshold: { objectName: "dualKpiConditionalFormatting", propertyName: "topBadThreshold" },
+            bottomGoodThreshold: { objectName: "dualKpiConditionalFormatting", propertyName: "bottomGoodThreshold" },
+            bottomBadThreshold: { objectName: "dualKpiConditionalFormatting", propertyName: "bottomBadThreshold" },
+            goodColor: { objectName: "dualKpiConditionalFormatting", propertyName: "goodColor" },
+            badColor: { objectName: "dualKpiConditionalFormatting", propertyName: "badColor" },
+            colorValue: { objectName: "dualKpiConditionalFormatting", propertyName: "colorValue" },
+            colorPercentChange: { objectName: "dualKpiConditionalFormatting", propertyName: "colorPercentChange" },
+            colorSeries: { objectName: "dualKpiConditionalFormatting", propertyName: "colorSeries" },
+            showArrows: { objectName: "dualKpiConditionalFormatting", propertyName: "showArrows" },
+
+            granularity: { objectName: "dualKpiDataSettings", propertyName: "granularity" },
+            aggregation: { objectName: "dualKpiDataSettings", propertyName: "aggregation" },
+            topMissingValues: { objectName: "dualKpiDataSettings", propertyName: "topMissingValues" },
+            bottomMissingValues: { objectName: "dualKpiDataSettings", propertyName: "bottomMissingValues" },
+            duplicateAggregation: { objectName: "dualKpiDataSettings", propertyName: "duplicateAggregation" },
+            showDiagnostics: { objectName: "dualKpiDataSettings", propertyName: "showDiagnostics" },
+
+            topDisplayUnits: { objectName: "dualKpiValues", propertyName: "topDisplayUnits" },
+            bottomDisplayUnits: { objectName: "dualKpiValues", propertyName: "bottomDisplayUnits" },
+            topDecimalPlaces: { objectName: "dualKpiValues", propertyName: "topDecimalPlaces" },
+            bottomDecimalPlaces: { objectName: "dualKpiValues", propertyName: "bottomDecimalPlaces" },
+
+            hoverDateFormat: { objectName: "dualKpiDates", propertyName: "hoverDateFormat" },
+            hoverDateCustomFormat: { objectName: "dualKpiDates", propertyName: "hoverDateCustomFormat" },
+            tooltipDateFormat: { objectName: "dualKpiDates", propertyName: "tooltipDateFormat" },
+            tooltipDateCustomFormat: { objectName: "dualKpiDates", propertyName: "tooltipDateCustomFormat" },
+            dateRangeFormat: { objectName: "dualKpiDates", propertyName: "dateRangeFormat" },
+
+            topTrendLine: { objectName: "dualKpiAnalytics", propertyName: "topTrendLine" },
+            bottomTrendLine: { objectName: "dualKpiAnalytics", propertyName: "bottomTrendLine" },
+            topMovingAverage: { objectName: "dualKpiAnalytics", propertyName: "topMovingAverage" },
+            bottomMovingAverage: { objectName: "dualKpiAnalytics", propertyName: "bottomMovingAverage" },
+            topMovingAveragePeriods: { objectName: "dualKpiAnalytics", propertyName: "topMovingAveragePeriods" },
+            bottomMovingAveragePeriods: { objectName: "dualKpiAnalytics", propertyName: "bottomMovingAveragePeriods" },
+            topProjection: { objectName: "dualKpiAnalytics", propertyName: "topProjection" },
+            bottomProjection: { objectName: "dualKpiAnalytics", propertyName: "bottomProjection" },
+
+            showAnomalies: { objectName: "dualKpiAnomalies", propertyName: "showAnomalies" },
+            anomalyWindow: { objectName: "dualKpiAnomalies", propertyName: "anomalyWindow" },
+            anomalyDeviations: { objectName: "dualKpiAnomalies", propertyName: "anomalyDeviations" },
+            anomalyColor: { objectName: "dualKpiAnomalies", propertyName: "anomalyColor" }
         };
 
         private dataView: DataView;
         private data: IDualKpiData;
+        private updateOptions: VisualUpdateOptions;
+        private brushRanges: { [chartId: string]: IDateRange } = {};
+        // first and last date of the shared date axis, brushed ranges are only kept while it stays the same
+        private axisExtentKey: string = null;
         private target: HTMLElement;
+        private host: IVisualHost;
         private size: DualKpiSize;
         private sizeCssClass: DualKpiSizeClass;
 
@@ -204,12 +690,15 @@ module powerbi.extensibility.visual {
 
         private chartGroupTop: IChartGroup;
         private chartGroupBottom: IChartGroup;
+        private additionalChartGroups: Array<IChartGroup> = [];
 
         private bottomContainer: IBottomContainer;
         private mobileTooltip: d3.Selection<SVGElement>;
-        private valueFormatter: Function;
-        private commaNumberFormatter: Function;
-        private timeFormatter: Function;
+        private percentDatePrompt: d3.Selection<SVGElement>;
+        private percentDatePromptTimer: number = null;
+        private hoverDateFormatter: Function;
+        private tooltipDateFormatter: Function;
+        private localization: IDualKpiLocalization;
         private dataBisector: Function;
 
         private chartLeftMargin = 30;
@@ -217,7 +706,233 @@ module powerbi.extensibility.visual {
         private viewport: IViewport;
         private eventListeners: Array<any> = [];
 
-        private static axisNumberFormatter = d3.format(".2s");
+        private static displayUnits = {
+            auto: 0,
+            none: 1,
+            thousands: 1e3,
+            millions: 1e6,
+            billions: 1e9,
+            trillions: 1e12
+        };
+
+        // keyed by language, locales without an entry fall back to English
+        private static localizedStrings: { [language: string]: IDualKpiStrings } = {
+            "en": {
+                notApplicable: "n/a",
+                since: "{0} since",
+                changeSince: "{0} change since {1}",
+                changeRange: "{0} change {1}",
+                dateRange: "from {0} to {1}",
+                lastPeriods: "last {0} {1}",
+                days: "days",
+                weeks: "weeks",
+                months: "months",
+                quarters: "quarters",
+                years: "years",
+                weekOf: "wk of {0}",
+                quarter: "Q{0} {1}",
+                seriesAge: "{0} is {1} old.",
+                hoursOld: "{0} hours",
+                daysOld: "{0} days",
+                businessDaysOld: "{0} business days",
+                comparedTo: "{0} vs {1}",
+                versusTarget: "{0} vs target",
+                setPercentDate: "Set {0} as % change start date",
+                droppedRow: "{0} row was dropped because the axis value isn't a valid date.",
+                droppedRows: "{0} rows were dropped because the axis value isn't a valid date.",
+                invalidDateExpression: "{0} \"{1}\" isn't a valid date or expression. Use a date such as 2017-01-31, a relative offset such as -30d, or start of month, start of quarter, YTD or same day last year.",
+                trend: "trend {0} over {1} {2}",
+                movingAverage: "{0} period moving average {1}",
+                projected: "projected: {0}",
+                anomaly: "{0} anomaly",
+                anomalies: "{0} anomalies",
+                aboveExpected: "{0} above the expected maximum {1}",
+                belowExpected: "{0} below the expected minimum {1}"
+            },
+            "de": {
+                notApplicable: "n. v.",
+                since: "{0} seitdem",
+                changeSince: "{0} Änderung seit {1}",
+                changeRange: "{0} Änderung {1}",
+                dateRange: "von {0} bis {1}",
+                lastPeriods: "letzte {0} {1}",
+                days: "Tage",
+                weeks: "Wochen",
+                months: "Monate",
+                quarters: "Quartale",
+                years: "Jahre",
+                weekOf: "Woche ab {0}",
+                quarter: "Q{0} {1}",
+                seriesAge: "{0} ist {1} alt.",
+                hoursOld: "{0} Stunden",
+                daysOld: "{0} Tage",
+                businessDaysOld: "{0} Werktage",
+                comparedTo: "{0} ggü. {1}",
+                versusTarget: "{0} ggü. Ziel",
+                setPercentDate: "{0} als Startdatum der %-Änderung festlegen",
+                droppedRow: "{0} Zeile wurde verworfen, da der Achsenwert kein gültiges Datum ist.",
+                droppedRows: "{0} Zeilen wurden verworfen, da der Achsenwert kein gültiges Datum ist.",
+                invalidDateExpression: "{0} \"{1}\" ist kein gültiges Datum und kein gültiger Ausdruck. Verwenden Sie ein Datum wie 2017-01-31, einen relativen Versatz wie -30d oder start of month, start of quarter, YTD bzw. same day last year.",
+                trend: "Trend {0} über {1} {2}",
+                movingAverage: "gleitender Durchschnitt über {0} Perioden {1}",
+                projected: "Prognose: {0}",
+                anomaly: "{0} Anomalie",
+                anomalies: "{0} Anomalien",
+                aboveExpected: "{0} über dem erwarteten Höchstwert {1}",
+                belowExpected: "{0} unter dem erwarteten Mindestwert {1}"
+            },
+            "fr": {
+                notApplicable: "n/d",
+                since: "{0} depuis",
+                changeSince: "{0} de variation depuis le {1}",
+                changeRange: "{0} de variation {1}",
+                dateRange: "du {0} au {1}",
+                lastPeriods: "sur {0} {1}",
+                days: "jours",
+                weeks: "semaines",
+                months: "mois",
+                quarters: "trimestres",
+                years: "ans",
+                weekOf: "sem. du {0}",
+                quarter: "T{0} {1}",
+                seriesAge: "{0} date de {1}.",
+                hoursOld: "{0} heures",
+                daysOld: "{0} jours",
+                businessDaysOld: "{0} jours ouvrés",
+                comparedTo: "{0} vs {1}",
+                versusTarget: "{0} vs objectif",
+                setPercentDate: "Définir le {0} comme date de début de la variation en %",
+                droppedRow: "{0} ligne a été ignorée car la valeur de l'axe n'est pas une date valide.",
+                droppedRows: "{0} lignes ont été ignorées car la valeur de l'axe n'est pas une date valide.",
+                invalidDateExpression: "{0} « {1} » n'est ni une date ni une expression valide. Utilisez une date comme 2017-01-31, un décalage relatif comme -30d, ou start of month, start of quarter, YTD ou same day last year.",
+                trend: "tendance {0} sur {1} {2}",
+                movingAverage: "moyenne mobile sur {0} périodes {1}",
+                projected: "projection : {0}",
+                anomaly: "{0} anomalie",
+                anomalies: "{0} anomalies",
+                aboveExpected: "{0} au-dessus du maximum attendu {1}",
+                belowExpected: "{0} en dessous du minimum attendu {1}"
+            },
+            "es": {
+                notApplicable: "n/d",
+                since: "{0} desde entonces",
+                changeSince: "{0} de cambio desde {1}",
+                changeRange: "{0} de cambio {1}",
+                dateRange: "del {0} al {1}",
+                lastPeriods: "{0} {1} anteriores",
+                days: "días",
+                weeks: "semanas",
+                months: "meses",
+                quarters: "trimestres",
+                years: "años",
+                weekOf: "sem. del {0}",
+                quarter: "T{0} {1}",
+                seriesAge: "{0} tiene {1} de antigüedad.",
+                hoursOld: "{0} horas",
+                daysOld: "{0} días",
+                businessDaysOld: "{0} días hábiles",
+                comparedTo: "{0} frente a {1}",
+                versusTarget: "{0} frente al objetivo",
+                setPercentDate: "Establecer {0} como fecha de inicio del % de cambio",
+                droppedRow: "Se descartó {0} fila porque el valor del eje no es una fecha válida.",
+                droppedRows: "Se descartaron {0} filas porque el valor del eje no es una fecha válida.",
+                invalidDateExpression: "{0} \"{1}\" no es una fecha ni una expresión válida. Use una fecha como 2017-01-31, un desplazamiento relativo como -30d, o start of month, start of quarter, YTD o same day last year.",
+                trend: "tendencia {0} en {1} {2}",
+                movingAverage: "media móvil de {0} periodos {1}",
+                projected: "proyección: {0}",
+                anomaly: "{0} anomalía",
+                anomalies: "{0} anomalías",
+                aboveExpected: "{0} por encima del máximo esperado {1}",
+                belowExpected: "{0} por debajo del mínimo esperado {1}"
+            },
+            "it": {
+                notApplicable: "n/d",
+                since: "{0} da allora",
+                changeSince: "{0} di variazione dal {1}",
+                changeRange: "{0} di variazione {1}",
+                dateRange: "dal {0} al {1}",
+                lastPeriods: "{0} {1} precedenti",
+                days: "giorni",
+                weeks: "settimane",
+                months: "mesi",
+                quarters: "trimestri",
+                years: "anni",
+                weekOf: "sett. del {0}",
+                quarter: "T{0} {1}",
+                seriesAge: "{0} risale a {1} fa.",
+                hoursOld: "{0} ore",
+                daysOld: "{0} giorni",
+                businessDaysOld: "{0} giorni lavorativi",
+                comparedTo: "{0} rispetto a {1}",
+                versusTarget: "{0} rispetto all'obiettivo",
+                setPercentDate: "Imposta {0} come data di inizio della variazione %",
+                droppedRow: "{0} riga è stata scartata perché il valore dell'asse non è una data valida.",
+                droppedRows: "{0} righe sono state scartate perché il valore dell'asse non è una data valida.",
+                invalidDateExpression: "{0} \"{1}\" non è una data o un'espressione valida. Usa una data come 2017-01-31, uno scostamento relativo come -30d oppure start of month, start of quarter, YTD o same day last year.",
+                trend: "tendenza {0} in {1} {2}",
+                movingAverage: "media mobile su {0} periodi {1}",
+                projected: "proiezione: {0}",
+                anomaly: "{0} anomalia",
+                anomalies: "{0} anomalie",
+                aboveExpected: "{0} sopra il massimo previsto {1}",
+                belowExpected: "{0} sotto il minimo previsto {1}"
+            },
+            "nl": {
+                notApplicable: "n.v.t.",
+                since: "{0} sindsdien",
+                changeSince: "{0} verandering sinds {1}",
+                changeRange: "{0} verandering {1}",
+                dateRange: "van {0} tot {1}",
+                lastPeriods: "afgelopen {0} {1}",
+                days: "dagen",
+                weeks: "weken",
+                months: "maanden",
+                quarters: "kwartalen",
+                years: "jaar",
+                weekOf: "week van {0}",
+                quarter: "K{0} {1}",
+                seriesAge: "{0} is {1} oud.",
+                hoursOld: "{0} uur",
+                daysOld: "{0} dagen",
+                businessDaysOld: "{0} werkdagen",
+                comparedTo: "{0} t.o.v. {1}",
+                versusTarget: "{0} t.o.v. doel",
+                setPercentDate: "{0} instellen als begindatum van de %-verandering",
+                droppedRow: "{0} rij is weggelaten omdat de aswaarde geen geldige datum is.",
+                droppedRows: "{0} rijen zijn weggelaten omdat de aswaarde geen geldige datum is.",
+                invalidDateExpression: "{0} \"{1}\" is geen geldige datum of expressie. Gebruik een datum zoals 2017-01-31, een relatieve verschuiving zoals -30d, of start of month, start of quarter, YTD of same day last year.",
+                trend: "trend {0} over {1} {2}",
+                movingAverage: "voortschrijdend gemiddelde over {0} perioden {1}",
+                projected: "prognose: {0}",
+                anomaly: "{0} afwijking",
+                anomalies: "{0} afwijkingen",
+                aboveExpected: "{0} boven het verwachte maximum {1}",
+                belowExpected: "{0} onder het verwachte minimum {1}"
+            }
+        };
+
+        // default colors of the additional KPIs, picked in order
+        private static seriesColors = ["#374649", "#fd625e", "#f2c80f", "#5f6b6d", "#8ad4eb", "#fe9666", "#a66999"];
+
+        // days of the week, 0 is sunday, skipped when counting business days
+        private static weekendDays = {
+            saturdaySunday: [6, 0],
+            fridaySaturday: [5, 6],
+            sunday: [0],
+            none: []
+        };
+
+        // gradient ids have to be unique within the document
+        private static gradientCount: number = 0;
+
+        private static warningLevelIcons = {
+            // exclamation mark in a triangle
+            error: "M24,24H8l8-16L24,24z M9.7,23h12.6L16,10.4L9.7,23z M16.5,19.8h-1v-5.4h1V19.8z M16.5,20.8v1.1h-1v-1.1H16.5z",
+            // exclamation mark in a diamond
+            warning: "M16,7L25,16L16,25L7,16z M9.4,16L16,22.6L22.6,16L16,9.4z M16.5,18.5h-1v-5h1V18.5z M16.5,20.6h-1v-1.1h1V20.6z",
+            // check mark
+            ok: "M13.6,21.6L8.8,16.8l1.4-1.4l3.4,3.4l8.2-8.2l1.4,1.4L13.6,21.6z"
+        };
 
         private static DefaultTitleSizes = {
             "extra-small": 10,
@@ -237,12 +952,13 @@ module powerbi.extensibility.visual {
 
         constructor(options: VisualConstructorOptions) {
             this.target = options.element;
+            this.host = options.host;
             d3.select(this.target.parentNode).attr("style", "-webkit-tap-highlight-color: transparent;");
             this.size = DualKpiSize.small;
             this.sizeCssClass = "small";
-            this.valueFormatter = d3.format(".3s");
-            this.commaNumberFormatter = d3.format(",");
-            this.timeFormatter = d3.time.format("%m/%d/%y");
+            // older hosts don't pass a locale, the browser language is used instead
+            this.localization = DualKpi.getLocalization((<ILocaleHost>options.host).locale || navigator.language);
+            this.hoverDateFormatter = this.tooltipDateFormatter = DualKpi.getDateFormatter("none", this.localization);
             this.dataBisector = d3.bisector((d: IDualKpiDataPoint) => { return d.date; }).left;
 
             this.initContainer();
@@ -259,6 +975,23 @@ module powerbi.extensibility.visual {
             this.bottomContainer = this.createBottomContainer(svgRoot);
         }
 
+        private getChartGroups(): Array<IChartGroup> {
+            return [this.chartGroupTop, this.chartGroupBottom].concat(this.additionalChartGroups);
+        }
+
+        /*
+        *   adds or removes chart groups so there is one for each additional KPI
+        */
+        private updateAdditionalChartGroups(count: number): void {
+            while (this.additionalChartGroups.length < count) {
+                this.additionalChartGroups.push(this.createChartGroup(this.svgRoot));
+            }
+
+            while (this.additionalChartGroups.length > count) {
+                this.additionalChartGroups.pop().group.remove();
+            }
+        }
+
         private createBottomContainer(svgRoot: d3.Selection<SVGElement>): IBottomContainer {
             let bottomContainer = svgRoot
                 .append("g")
@@ -293,6 +1026,38 @@ module powerbi.extensibility.visual {
                 .append("title")
                 .classed("info-title", true);
 
+            let diagnosticGroup = bottomContainer
+                .append("g")
+                .classed("diagnostic-group", true);
+
+            let diagnosticIcon = diagnosticGroup
+                .append("path")
+                .classed("diagnostic-icon", true);
+
+            let diagnosticTitle = diagnosticIcon
+                .append("title")
+                .classed("diagnostic-title", true);
+
+            let diagnosticCount = diagnosticGroup
+                .append("text")
+                .classed("diagnostic-count", true);
+
+            let anomalyGroup = bottomContainer
+                .append("g")
+                .classed("anomaly-group", true);
+
+            let anomalyIcon = anomalyGroup
+                .append("path")
+                .classed("anomaly-icon", true);
+
+            let anomalyTitle = anomalyIcon
+                .append("title")
+                .classed("anomaly-title", true);
+
+            let anomalyCount = anomalyGroup
+                .append("text")
+                .classed("diagnostic-count", true);
+
             let dateRangeText = bottomContainer
                 .append("text")
                 .classed("date-range-text", true)
@@ -311,6 +1076,18 @@ module powerbi.extensibility.visual {
                     icon: infoIcon,
                     title: infoTitle
                 },
+                diagnostic: {
+                    group: diagnosticGroup,
+                    icon: diagnosticIcon,
+                    title: diagnosticTitle,
+                    count: diagnosticCount
+                },
+                anomaly: {
+                    group: anomalyGroup,
+                    icon: anomalyIcon,
+                    title: anomalyTitle,
+                    count: anomalyCount
+                },
                 dateRangeText: dateRangeText
             }
         }
@@ -320,10 +1097,51 @@ module powerbi.extensibility.visual {
                 .append("g")
                 .attr("class", "chartGroup")
 
+            // appended before the area so the comparison series is drawn behind it
+            let comparisonLine = chartGroup
+                .append("path")
+                .attr("class", "comparison-line");
+
+            let gradientId = "dualKpiGradient" + (DualKpi.gradientCount++);
+            let gradient = chartGroup
+                .append("defs")
+                .append("linearGradient")
+                .attr({
+                    "id": gradientId,
+                    "gradientUnits": "userSpaceOnUse",
+                    "x1": 0,
+                    "x2": 0
+                });
+
             let chartArea = chartGroup
                 .append("path")
                 .attr("class", "area");
 
+            let markers = chartGroup
+                .append("g")
+                .attr("class", "markers");
+
+            let targetLine = chartGroup
+                .append("path")
+                .attr("class", "target-line");
+
+            let trendLine = chartGroup
+                .append("path")
+                .attr("class", "trend-line");
+
+            let movingAverageLine = chartGroup
+                .append("path")
+                .attr("class", "moving-average-line");
+
+            let projectionLine = chartGroup
+                .append("path")
+                .attr("class", "projection-line");
+
+            let brushRect = chartGroup
+                .append("rect")
+                .attr("class", "brush")
+                .classed("hidden", true);
+
             let yAxis = chartGroup
                 .append("g")
                 .attr("class", "axis");
@@ -339,16 +1157,35 @@ module powerbi.extensibility.visual {
                 .append("path")
                 .attr("class", "zero-axis");
 
+            let anomalyMarkers = chartGroup
+                .append("g")
+                .attr("class", "anomaly-markers");
+
+            let pointMarkers = chartGroup
+                .append("g")
+                .attr("class", "point-markers");
+
             this.initMouseEvents(hoverDataContainer, hoverLine);
 
             return {
                 group: chartGroup,
                 area: chartArea,
+                markers: markers,
+                gradient: gradient,
+                gradientId: gradientId,
+                comparisonLine: comparisonLine,
+                targetLine: targetLine,
+                brushRect: brushRect,
                 yAxis: yAxis,
                 hoverLine,
                 hoverDataContainer: hoverDataContainer,
                 chartOverlay: chartOverlay,
-                zeroAxis: zeroAxis
+                zeroAxis: zeroAxis,
+                trendLine: trendLine,
+                movingAverageLine: movingAverageLine,
+                projectionLine: projectionLine,
+                pointMarkers: pointMarkers,
+                anomalyMarkers: anomalyMarkers
             }
         }
 
@@ -371,6 +1208,32 @@ module powerbi.extensibility.visual {
                     "text-anchor": "middle"
                 });
 
+            let warningGroup = chartOverlayTextGroup
+                .append("g")
+                .classed("warning-group", true)
+                .classed("hidden", true);
+
+            let warningIcon = warningGroup
+                .append("path")
+                .classed("warning-icon", true);
+
+            let warningTitle = warningIcon
+                .append("title");
+
+            let targetText = chartOverlayTextGroup
+                .append("text")
+                .classed("target-text", true)
+                .attr({
+                    "text-anchor": "start"
+                });
+
+            let projectionText = chartOverlayTextGroup
+                .append("text")
+                .classed("target-text", true)
+                .attr({
+                    "text-anchor": "middle"
+                });
+
             // this rect is always invisible, used for capture mouse and touch events
             let chartOverlayRect = chartOverlayTextGroup
                 .append("rect")
@@ -382,7 +1245,14 @@ module powerbi.extensibility.visual {
             return {
                 group: chartOverlayTextGroup,
                 title: title,
+                warning: {
+                    group: warningGroup,
+                    icon: warningIcon,
+                    title: warningTitle
+                },
                 text: text,
+                targetText: targetText,
+                projectionText: projectionText,
                 rect: chartOverlayRect,
                 rectTitle: rectTitle
             }
@@ -411,14 +1281,61 @@ module powerbi.extensibility.visual {
             this.eventListeners.map((event: any) => {
                 event.call();
             });
+            this.eventListeners = [];
         }
 
         private addClearEvents(func: any) {
             this.eventListeners.push(func);
         }
 
+        /*
+        *   brushed ranges are shared by both charts when brushes are synced
+        */
+        private getBrushKey(chartId: string): string {
+            return this.data.syncBrush ? "synced" : chartId;
+        }
+
+        private setBrushRange(chartId: string, range: IDateRange): void {
+            this.brushRanges[this.getBrushKey(chartId)] = range;
+            this.update(this.updateOptions);
+        }
+
+        private clearBrushRanges(): void {
+            if (Object.keys(this.brushRanges).length === 0) {
+                return;
+            }
+
+            this.brushRanges = {};
+            this.update(this.updateOptions);
+        }
+
+        private initBrushClearEvents(): void {
+            let target = this.target;
+
+            let onKeydown = (e: KeyboardEvent) => {
+                if (e.keyCode === 27) { // escape
+                    this.hidePercentDatePrompt();
+                    this.clearBrushRanges();
+                }
+            };
+
+            let onDblclick = (e: MouseEvent) => {
+                this.hidePercentDatePrompt();
+                this.clearBrushRanges();
+            };
+
+            document.addEventListener("keydown", onKeydown);
+            target.addEventListener("dblclick", onDblclick);
+
+            this.addClearEvents(() => {
+                document.removeEventListener("keydown", onKeydown);
+                target.removeEventListener("dblclick", onDblclick);
+            });
+        }
+
         public update(options: VisualUpdateOptions) {
             this.clearEvents();
+            this.updateOptions = options;
             let dataView: DataView = this.dataView = options.dataViews[0];
 
             if (!dataView ||
@@ -429,26 +1346,51 @@ module powerbi.extensibility.visual {
                 return;
             }
 
-            let data: IDualKpiData = this.data = DualKpi.converter(this.dataView);
+            let data: IDualKpiData = this.data = DualKpi.converter(this.dataView, this.localization);
+
+            // new data or filters that change the date axis make brushed ranges meaningless
+            let primaryValues = DualKpi.getPrimaryValues(data);
+            let axisExtentKey = primaryValues.length > 0 ? primaryValues[0].date.getTime() + "-" + primaryValues[primaryValues.length - 1].date.getTime() : "";
+            if (axisExtentKey !== this.axisExtentKey) {
+                this.brushRanges = {};
+                this.axisExtentKey = axisExtentKey;
+            }
+
+            // data that isn't resampled is still shown as months, quarters or years when its points are that far apart
+            let dateGranularity = data.granularity === "none" ? DualKpi.inferGranularity(primaryValues) : data.granularity;
+            this.hoverDateFormatter = DualKpi.getDateFormat(data.hoverDateFormat, data.hoverDateCustomFormat, dateGranularity, this.localization);
+            this.tooltipDateFormatter = DualKpi.getDateFormat(data.tooltipDateFormat, data.tooltipDateCustomFormat, dateGranularity, this.localization);
+            this.initBrushClearEvents();
 
             let availableHeight = options.viewport.height < 90 ? 90 : options.viewport.height,
                 availableWidth = options.viewport.width < 220 ? 220 : options.viewport.width,
-                chartWidth = availableWidth,
+                boundChartCount = (data.topValuesBound ? 1 : 0) + (data.bottomValuesBound ? 1 : 0),
+                chartCount = Math.max(1, boundChartCount + data.additionalSeries.length),
                 chartSpaceBetween, chartTitleSpace, iconOffset;
 
-            if (availableHeight >= 450) {
+            let columns = data.layout === "horizontal" ? chartCount : data.layout === "grid" ? Math.ceil(Math.sqrt(chartCount)) : 1;
+            let rows = Math.ceil(chartCount / columns);
+
+            // sizes were made for two stacked charts, so size each chart as if it was half of such a tile,
+            // a single KPI gets the fonts of a tile twice its height
+            let sizeHeight = availableHeight * 2 / rows;
+            if (columns > 1) {
+                sizeHeight = Math.min(sizeHeight, availableWidth * 2 / columns);
+            }
+
+            if (sizeHeight >= 450) {
                 this.size = DualKpiSize.large;
                 this.sizeCssClass = "large";
                 iconOffset = -1;
                 chartSpaceBetween = 25;
                 chartTitleSpace = 46;
-            } else if (availableHeight >= 280) {
+            } else if (sizeHeight >= 280) {
                 this.size = DualKpiSize.medium;
                 this.sizeCssClass = "medium";
                 iconOffset = -8;
                 chartSpaceBetween = 20;
                 chartTitleSpace = 30;
-            } else if (availableHeight >= 120) {
+            } else if (sizeHeight >= 120) {
                 this.size = DualKpiSize.small;
                 this.sizeCssClass = "small";
                 iconOffset = -6;
@@ -469,52 +1411,176 @@ module powerbi.extensibility.visual {
                 height: availableHeight
             });
 
-            let chartHeight = (availableHeight - (chartSpaceBetween + chartTitleSpace)) / 2;
+            let chartWidth = (availableWidth - chartSpaceBetween * (columns - 1)) / columns;
+            let chartHeight = (availableHeight - chartTitleSpace - chartSpaceBetween * (rows - 1)) / rows;
+
+            // charts fill the rows left to right, stacked charts show their hover data together
+            // and charts next to each other only while the pointer is over their own area
+            let getChartPosition = (index: number) => {
+                let top = Math.floor(index / columns) * (chartHeight + chartSpaceBetween);
+                return {
+                    top: top,
+                    left: (index % columns) * (chartWidth + chartSpaceBetween),
+                    hoverTop: columns === 1 ? 0 : top,
+                    hoverBottom: columns === 1 ? (rows - 1) * (chartHeight + chartSpaceBetween) + chartHeight + 15 : top + chartHeight + 15
+                };
+            };
+            let topChartPosition = getChartPosition(0);
+            let bottomChartPosition = getChartPosition(data.topValuesBound ? 1 : 0);
+
+            this.updateAdditionalChartGroups(data.additionalSeries.length);
             let topChartAxisConfig = { min: data.topChartAxisMin, max: data.topChartAxisMax };
             let bottomChartAxisConfig = { min: data.bottomChartAxisMin, max: data.bottomChartAxisMax };
 
-            let topChartPercentChangeStartPoint = DualKpi.getPercentChangeStartPoint(data.topValues, data.topPercentCalcDate);
-            let bottomChartPercentChangeStartPoint = DualKpi.getPercentChangeStartPoint(data.bottomValues, data.bottomPercentCalcDate);
+            let topDefinedValues = DualKpi.getDefinedPoints(data.topValues);
+            let bottomDefinedValues = DualKpi.getDefinedPoints(data.bottomValues);
+
+            // charts of measures that aren't bound give their space to the others, charts without values are left empty
+            this.chartGroupTop.group.classed("hidden", !data.topValuesBound || topDefinedValues.length === 0);
+            this.chartGroupBottom.group.classed("hidden", !data.bottomValuesBound || bottomDefinedValues.length === 0);
+
+            // percent calc dates are matched against the bucket they fall into when data is resampled
+            let topChartPercentChangeStartPoint = DualKpi.getPercentChangeStartPoint(topDefinedValues, DualKpi.getPeriodStart(data.topPercentCalcDate, data.granularity));
+            let bottomChartPercentChangeStartPoint = DualKpi.getPercentChangeStartPoint(bottomDefinedValues, DualKpi.getPeriodStart(data.bottomPercentCalcDate, data.granularity));
+            let topChartPercentChangeEndPoint = DualKpi.getPercentChangeEndPoint(topDefinedValues, DualKpi.getPeriodStart(data.topPercentCalcEndDate, data.granularity));
+            let bottomChartPercentChangeEndPoint = DualKpi.getPercentChangeEndPoint(bottomDefinedValues, DualKpi.getPeriodStart(data.bottomPercentCalcEndDate, data.granularity));
 
             // draw top chart
-            if (data.topValues.length > 0) {
+            if (topDefinedValues.length > 0) {
                 this.drawChart({
+                    chartId: "top",
                     element: this.chartGroupTop,
-                    abbreviateValue: data.abbreviateValues,
                     axisConfig: topChartAxisConfig,
                     chartData: data.topValues,
                     chartTitle: data.topChartName,
                     chartType: data.topChartType,
+                    dataColor: data.dataColor,
+                    textColor: data.textColor,
+                    opacity: data.opacity,
+                    lineWidth: data.topLineWidth,
+                    gradient: data.topGradient,
+                    belowZeroColor: data.topBelowZeroColor,
                     height: chartHeight,
                     percentChangeStartPoint: topChartPercentChangeStartPoint,
+                    percentChangeEndPoint: topChartPercentChangeEndPoint,
+                    percentCalcDateProperty: data.clickToSetPercentDate && !data.topPercentCalcDateBound ? "topPercentCalcDate" : null,
+                    polarity: data.topPolarity,
+                    goodThreshold: data.topGoodThreshold,
+                    badThreshold: data.topBadThreshold,
+                    showPercentChangeRange: data.topPercentCalcEndDate !== null,
+                    showComparison: data.topHasComparison,
+                    showTarget: data.topHasTarget,
                     showZeroLine: data.topChartZeroLine,
+                    trendLine: data.topTrendLine,
+                    movingAverage: data.topMovingAverage,
+                    movingAveragePeriods: data.topMovingAveragePeriods,
+                    projection: data.topProjection,
                     tooltipText: data.topChartToolTipText,
-                    top: 0,
+                    warningLevel: this.getWarningLevel(data.topWarningState),
+                    top: topChartPosition.top,
+                    left: topChartPosition.left,
+                    hoverTop: topChartPosition.hoverTop,
+                    hoverBottom: topChartPosition.hoverBottom,
                     valueAsPercent: data.topValueAsPercent,
+                    valueFormat: data.topValueFormat,
                     width: chartWidth
                 });
             }
 
             // draw bottom chart
-            if (data.bottomValues.length > 0) {
+            if (bottomDefinedValues.length > 0) {
                 this.drawChart({
+                    chartId: "bottom",
                     element: this.chartGroupBottom,
-                    abbreviateValue: data.abbreviateValues,
                     axisConfig: bottomChartAxisConfig,
                     chartData: data.bottomValues,
                     chartTitle: data.bottomChartName,
                     chartType: data.bottomChartType,
+                    dataColor: data.bottomDataColor,
+                    textColor: data.bottomTextColor,
+                    opacity: data.bottomOpacity,
+                    lineWidth: data.bottomLineWidth,
+                    gradient: data.bottomGradient,
+                    belowZeroColor: data.bottomBelowZeroColor,
                     height: chartHeight,
                     percentChangeStartPoint: bottomChartPercentChangeStartPoint,
+                    percentChangeEndPoint: bottomChartPercentChangeEndPoint,
+                    percentCalcDateProperty: data.clickToSetPercentDate && !data.bottomPercentCalcDateBound ? "bottomPercentCalcDate" : null,
+                    polarity: data.bottomPolarity,
+                    goodThreshold: data.bottomGoodThreshold,
+                    badThreshold: data.bottomBadThreshold,
+                    showPercentChangeRange: data.bottomPercentCalcEndDate !== null,
+                    showComparison: data.bottomHasComparison,
+                    showTarget: data.bottomHasTarget,
                     showZeroLine: data.bottomChartZeroLine,
+                    trendLine: data.bottomTrendLine,
+                    movingAverage: data.bottomMovingAverage,
+                    movingAveragePeriods: data.bottomMovingAveragePeriods,
+                    projection: data.bottomProjection,
                     tooltipText: data.bottomChartToolTipText,
-                    top: chartHeight + chartSpaceBetween,
+                    warningLevel: this.getWarningLevel(data.bottomWarningState),
+                    top: bottomChartPosition.top,
+                    left: bottomChartPosition.left,
+                    hoverTop: bottomChartPosition.hoverTop,
+                    hoverBottom: bottomChartPosition.hoverBottom,
                     valueAsPercent: data.bottomValueAsPercent,
+                    valueFormat: data.bottomValueFormat,
                     width: chartWidth
                 });
             }
 
-            this.drawBottomContainer(chartWidth, chartHeight, chartTitleSpace, chartSpaceBetween, iconOffset);
+            // additional KPIs follow the top chart for text color and opacity
+            data.additionalSeries.forEach((series: IDualKpiSeries, seriesIndex: number) => {
+                let definedValues = DualKpi.getDefinedPoints(series.values);
+
+                // nothing to draw, the previous render mustn't stay on screen
+                this.additionalChartGroups[seriesIndex].group.classed("hidden", definedValues.length === 0);
+                if (definedValues.length === 0) {
+                    return;
+                }
+
+                let position = getChartPosition(boundChartCount + seriesIndex);
+                this.drawChart({
+                    chartId: "kpi" + (seriesIndex + 3),
+                    element: this.additionalChartGroups[seriesIndex],
+                    axisConfig: { min: null, max: null },
+                    chartData: series.values,
+                    chartTitle: series.name,
+                    chartType: series.chartType,
+                    dataColor: series.dataColor,
+                    textColor: data.textColor,
+                    opacity: data.opacity,
+                    lineWidth: series.lineWidth,
+                    gradient: series.gradient,
+                    belowZeroColor: series.belowZeroColor,
+                    height: chartHeight,
+                    percentChangeStartPoint: DualKpi.getPercentChangeStartPoint(definedValues, DualKpi.getPeriodStart(series.percentCalcDate, data.granularity)),
+                    percentChangeEndPoint: DualKpi.getPercentChangeEndPoint(definedValues, DualKpi.getPeriodStart(series.percentCalcEndDate, data.granularity)),
+                    percentCalcDateProperty: null,
+                    polarity: series.polarity,
+                    goodThreshold: null,
+                    badThreshold: null,
+                    showPercentChangeRange: series.percentCalcEndDate !== null,
+                    showComparison: false,
+                    showTarget: false,
+                    showZeroLine: series.zeroLine,
+                    trendLine: series.trendLine,
+                    movingAverage: series.movingAverage,
+                    movingAveragePeriods: series.movingAveragePeriods,
+                    projection: series.projection,
+                    tooltipText: "",
+                    warningLevel: null,
+                    top: position.top,
+                    left: position.left,
+                    hoverTop: position.hoverTop,
+                    hoverBottom: position.hoverBottom,
+                    valueAsPercent: series.valueAsPercent,
+                    valueFormat: series.valueFormat,
+                    width: chartWidth
+                });
+            });
+
+            this.drawBottomContainer(availableWidth, chartHeight, chartTitleSpace, chartSpaceBetween, iconOffset);
         }
 
         private updateViewport(viewport: IViewport): void {
@@ -545,8 +1611,13 @@ module powerbi.extensibility.visual {
                             showStaleDataWarning: DualKpi.getShowStaleDataWarning(this.dataView),
                             staleDataTooltipText: DualKpi.getStaleDataTooltipText(this.dataView),
                             staleDataThreshold: DualKpi.getStaleDataThreshold(this.dataView),
+                            staleDataUnit: DualKpi.getStaleDataUnit(this.dataView),
+                            weekend: DualKpi.getWeekend(this.dataView),
                             topPercentCalcDate: DualKpi.getTopPercentCalcDate(this.dataView),
-                            bottomPercentCalcDate: DualKpi.getBottomPercentCalcDate(this.dataView)
+                            bottomPercentCalcDate: DualKpi.getBottomPercentCalcDate(this.dataView),
+                            topPercentCalcEndDate: DualKpi.getTopPercentCalcEndDate(this.dataView),
+                            bottomPercentCalcEndDate: DualKpi.getBottomPercentCalcEndDate(this.dataView),
+                            percentCalcDateAnchor: DualKpi.getPercentCalcDateAnchor(this.dataView)
                         }
                     };
                     instances.push(dualKpiProperties);
@@ -559,7 +1630,16 @@ module powerbi.extensibility.visual {
                         properties: {
                             dataColor: DualKpi.getDataColor(this.dataView),
                             textColor: DualKpi.getTextColor(this.dataView),
-                            opacity: DualKpi.getOpacity(this.dataView)
+                            opacity: DualKpi.getOpacity(this.dataView),
+                            bottomDataColor: DualKpi.getBottomDataColor(this.dataView),
+                            bottomTextColor: DualKpi.getBottomTextColor(this.dataView),
+                            bottomOpacity: DualKpi.getBottomOpacity(this.dataView),
+                            topLineWidth: DualKpi.getTopLineWidth(this.dataView),
+                            bottomLineWidth: DualKpi.getBottomLineWidth(this.dataView),
+                            topGradient: DualKpi.getTopGradient(this.dataView),
+                            bottomGradient: DualKpi.getBottomGradient(this.dataView),
+                            topBelowZeroColor: DualKpi.getTopBelowZeroColor(this.dataView),
+                            bottomBelowZeroColor: DualKpi.getBottomBelowZeroColor(this.dataView)
                         }
                     };
                     instances.push(dualKpiColors);
@@ -587,11 +1667,185 @@ module powerbi.extensibility.visual {
                         selector: null,
                         properties: {
                             topChartType: DualKpi.getTopChartType(this.dataView),
-                            bottomChartType: DualKpi.getBottomChartType(this.dataView)
+                            bottomChartType: DualKpi.getBottomChartType(this.dataView),
+                            layout: DualKpi.getLayout(this.dataView),
+                            showMinMarker: DualKpi.getShowMinMarker(this.dataView),
+                            showMaxMarker: DualKpi.getShowMaxMarker(this.dataView),
+                            showLatestMarker: DualKpi.getShowLatestMarker(this.dataView)
                         }
                     };
                     instances.push(dualKpiChart);
                     break;
+                case "dualKpiSeries":
+                    let additionalSeries = this.data ? this.data.additionalSeries : [];
+                    additionalSeries.forEach((series: IDualKpiSeries) => {
+                        instances.push({
+                            objectName: "dualKpiSeries",
+                            displayName: series.name,
+                            selector: { metadata: series.queryName },
+                            properties: {
+                                chartType: series.chartType,
+                                dataColor: { solid: { color: series.dataColor } },
+                                lineWidth: series.lineWidth,
+                                zeroLine: series.zeroLine,
+                                polarity: series.polarity,
+                                displayUnits: series.displayUnits,
+                                decimalPlaces: series.decimalPlaces,
+                                missingValues: series.missingValues,
+                                gradient: series.gradient,
+                                belowZeroColor: series.belowZeroColor ? { solid: { color: series.belowZeroColor } } : null,
+                                percentCalcDate: series.percentCalcDateExpression,
+                                percentCalcEndDate: series.percentCalcEndDateExpression,
+                                trendLine: series.trendLine,
+                                movingAverage: series.movingAverage,
+                                movingAveragePeriods: series.movingAveragePeriods,
+                                projection: series.projection
+                            }
+                        });
+                    });
+                    break;
+                case "dualKpiComparison":
+                    let dualKpiComparison: VisualObjectInstance = {
+                        objectName: "dualKpiComparison",
+                        displayName: "Dual KPI Comparison",
+                        selector: null,
+                        properties: {
+                            topComparisonType: DualKpi.getTopComparisonType(this.dataView),
+                            bottomComparisonType: DualKpi.getBottomComparisonType(this.dataView)
+                        }
+                    };
+                    instances.push(dualKpiComparison);
+                    break;
+                case "dualKpiDataSettings":
+                    let dualKpiDataSettings: VisualObjectInstance = {
+                        objectName: "dualKpiDataSettings",
+                        displayName: "Dual KPI Data Settings",
+                        selector: null,
+                        properties: {
+                            granularity: DualKpi.getGranularity(this.dataView),
+                            aggregation: DualKpi.getAggregation(this.dataView),
+                            topMissingValues: DualKpi.getTopMissingValues(this.dataView),
+                            bottomMissingValues: DualKpi.getBottomMissingValues(this.dataView),
+                            duplicateAggregation: DualKpi.getDuplicateAggregation(this.dataView),
+                            showDiagnostics: DualKpi.getShowDiagnostics(this.dataView)
+                        }
+                    };
+                    instances.push(dualKpiDataSettings);
+                    break;
+                case "dualKpiValues":
+                    let dualKpiValues: VisualObjectInstance = {
+                        objectName: "dualKpiValues",
+                        displayName: "Dual KPI Values",
+                        selector: null,
+                        properties: {
+                            topDisplayUnits: DualKpi.getTopDisplayUnits(this.dataView),
+                            topDecimalPlaces: DualKpi.getTopDecimalPlaces(this.dataView),
+                            bottomDisplayUnits: DualKpi.getBottomDisplayUnits(this.dataView),
+                            bottomDecimalPlaces: DualKpi.getBottomDecimalPlaces(this.dataView)
+                        }
+                    };
+                    instances.push(dualKpiValues);
+                    break;
+                case "dualKpiDates":
+                    let dualKpiDates: VisualObjectInstance = {
+                        objectName: "dualKpiDates",
+                        displayName: "Dual KPI Dates",
+                        selector: null,
+                        properties: {
+                            hoverDateFormat: DualKpi.getHoverDateFormat(this.dataView),
+                            hoverDateCustomFormat: DualKpi.getHoverDateCustomFormat(this.dataView),
+                            tooltipDateFormat: DualKpi.getTooltipDateFormat(this.dataView),
+                            tooltipDateCustomFormat: DualKpi.getTooltipDateCustomFormat(this.dataView),
+                            dateRangeFormat: DualKpi.getDateRangeFormat(this.dataView)
+                        }
+                    };
+                    instances.push(dualKpiDates);
+                    break;
+                case "dualKpiAnalytics":
+                    let dualKpiAnalytics: VisualObjectInstance = {
+                        objectName: "dualKpiAnalytics",
+                        displayName: "Dual KPI Analytics",
+                        selector: null,
+                        properties: {
+                            topTrendLine: DualKpi.getTopTrendLine(this.dataView),
+                            topMovingAverage: DualKpi.getTopMovingAverage(this.dataView),
+                            topMovingAveragePeriods: DualKpi.getTopMovingAveragePeriods(this.dataView),
+                            topProjection: DualKpi.getTopProjection(this.dataView),
+                            bottomTrendLine: DualKpi.getBottomTrendLine(this.dataView),
+                            bottomMovingAverage: DualKpi.getBottomMovingAverage(this.dataView),
+                            bottomMovingAveragePeriods: DualKpi.getBottomMovingAveragePeriods(this.dataView),
+                            bottomProjection: DualKpi.getBottomProjection(this.dataView)
+                        }
+                    };
+                    instances.push(dualKpiAnalytics);
+                    break;
+                case "dualKpiAnomalies":
+                    let dualKpiAnomalies: VisualObjectInstance = {
+                        objectName: "dualKpiAnomalies",
+                        displayName: "Dual KPI Anomalies",
+                        selector: null,
+                        properties: {
+                            showAnomalies: DualKpi.getShowAnomalies(this.dataView),
+                            anomalyWindow: DualKpi.getAnomalyWindow(this.dataView),
+                            anomalyDeviations: DualKpi.getAnomalyDeviations(this.dataView),
+                            anomalyColor: DualKpi.getAnomalyColor(this.dataView)
+                        }
+                    };
+                    instances.push(dualKpiAnomalies);
+                    break;
+                case "dualKpiInteractions":
+                    let dualKpiInteractions: VisualObjectInstance = {
+                        objectName: "dualKpiInteractions",
+                        displayName: "Dual KPI Interactions",
+                        selector: null,
+                        properties: {
+                            syncBrush: DualKpi.getSyncBrush(this.dataView),
+                            clickToSetPercentDate: DualKpi.getClickToSetPercentDate(this.dataView)
+                        }
+                    };
+                    instances.push(dualKpiInteractions);
+                    break;
+                case "dualKpiWarningStates":
+                    let dualKpiWarningStates: VisualObjectInstance = {
+                        objectName: "dualKpiWarningStates",
+                        displayName: "Dual KPI Warning States",
+                        selector: null,
+                        properties: {
+                            errorThreshold: DualKpi.getErrorThreshold(this.dataView),
+                            warningThreshold: DualKpi.getWarningThreshold(this.dataView),
+                            errorColor: DualKpi.getErrorColor(this.dataView),
+                            warningColor: DualKpi.getWarningColor(this.dataView),
+                            okColor: DualKpi.getOkColor(this.dataView),
+                            warningLevelTooltipText: DualKpi.getWarningLevelTooltipText(this.dataView),
+                            okTooltipText: DualKpi.getOkTooltipText(this.dataView),
+                            showOkState: DualKpi.getShowOkState(this.dataView)
+                        }
+                    };
+                    instances.push(dualKpiWarningStates);
+                    break;
+                case "dualKpiConditionalFormatting":
+                    let dualKpiConditionalFormatting: VisualObjectInstance = {
+                        objectName: "dualKpiConditionalFormatting",
+                        displayName: "Dual KPI Conditional Formatting",
+                        selector: null,
+                        properties: {
+                            colorRule: DualKpi.getColorRule(this.dataView),
+                            topPolarity: DualKpi.getTopPolarity(this.dataView),
+                            bottomPolarity: DualKpi.getBottomPolarity(this.dataView),
+                            topGoodThreshold: DualKpi.getTopGoodThreshold(this.dataView),
+                            topBadThreshold: DualKpi.getTopBadThreshold(this.dataView),
+                            bottomGoodThreshold: DualKpi.getBottomGoodThreshold(this.dataView),
+                            bottomBadThreshold: DualKpi.getBottomBadThreshold(this.dataView),
+                            goodColor: DualKpi.getGoodColor(this.dataView),
+                            badColor: DualKpi.getBadColor(this.dataView),
+                            colorValue: DualKpi.getColorValue(this.dataView),
+                            colorPercentChange: DualKpi.getColorPercentChange(this.dataView),
+                            colorSeries: DualKpi.getColorSeries(this.dataView),
+                            showArrows: DualKpi.getShowArrows(this.dataView)
+                        }
+                    };
+                    instances.push(dualKpiConditionalFormatting);
+                    break;
             }
             return instances;
         }
@@ -644,6 +1898,14 @@ module powerbi.extensibility.visual {
             return dataView && dataView.metadata && DualKpi.getValue(dataView.metadata.objects, DualKpi.properties.staleDataThreshold, DualKpi.defaultValues.staleDataThreshold);
         }
 
+        private static getStaleDataUnit(dataView: DataView): string {
+            return dataView && dataView.metadata && DualKpi.getValue(dataView.metadata.objects, DualKpi.properties.staleDataUnit, DualKpi.defaultValues.staleDataUnit);
+        }
+
+        private static getWeekend(dataView: DataView): string {
+            return dataView && dataView.metadata && DualKpi.getValue(dataView.metadata.objects, DualKpi.properties.weekend, DualKpi.defaultValues.weekend);
+        }
+
         private static getTopPercentCalcDate(dataView: DataView): string {
             return dataView && dataView.metadata && DualKpi.getValue(dataView.metadata.objects, DualKpi.properties.topPercentCalcDate, DualKpi.defaultValues.topPercentCalcDate);
         }
@@ -652,6 +1914,18 @@ module powerbi.extensibility.visual {
             return dataView && dataView.metadata && DualKpi.getValue(dataView.metadata.objects, DualKpi.properties.bottomPercentCalcDate, DualKpi.defaultValues.bottomPercentCalcDate);
         }
 
+        private static getTopPercentCalcEndDate(dataView: DataView): string {
+            return dataView && dataView.metadata && DualKpi.getValue(dataView.metadata.objects, DualKpi.properties.topPercentCalcEndDate, DualKpi.defaultValues.topPercentCalcEndDate);
+        }
+
+        private static getBottomPercentCalcEndDate(dataView: DataView): string {
+            return dataView && dataView.metadata && DualKpi.getValue(dataView.metadata.objects, DualKpi.properties.bottomPercentCalcEndDate, DualKpi.defaultValues.bottomPercentCalcEndDate);
+        }
+
+        private static getPercentCalcDateAnchor(dataView: DataView): string {
+            return dataView && dataView.metadata && DualKpi.getValue(dataView.metadata.objects, DualKpi.properties.percentCalcDateAnchor, DualKpi.defaultValues.percentCalcDateAnchor);
+        }
+
         private static getDataColor(dataView: DataView): Fill {
             return dataView && dataView.metadata && DualKpi.getValue(dataView.metadata.objects, DualKpi.properties.dataColor, { solid: { color: DualKpi.defaultValues.dataColor } });
         }
@@ -664,6 +1938,43 @@ module powerbi.extensibility.visual {
             return dataView && dataView.metadata && DualKpi.getValue(dataView.metadata.objects, DualKpi.properties.opacity, DualKpi.defaultValues.opacity);
         }
 
+        // bottom chart colors fall back to the top chart settings until they are set explicitly
+        private static getBottomDataColor(dataView: DataView): Fill {
+            return dataView && dataView.metadata && DualKpi.getValue(dataView.metadata.objects, DualKpi.properties.bottomDataColor, DualKpi.getDataColor(dataView));
+        }
+
+        private static getBottomTextColor(dataView: DataView): Fill {
+            return dataView && dataView.metadata && DualKpi.getValue(dataView.metadata.objects, DualKpi.properties.bottomTextColor, DualKpi.getTextColor(dataView));
+        }
+
+        private static getBottomOpacity(dataView: DataView): number {
+            return dataView && dataView.metadata && DualKpi.getValue(dataView.metadata.objects, DualKpi.properties.bottomOpacity, DualKpi.getOpacity(dataView));
+        }
+
+        private static getTopLineWidth(dataView: DataView): number {
+            return dataView && dataView.metadata && DualKpi.getValue(dataView.metadata.objects, DualKpi.properties.topLineWidth, DualKpi.defaultValues.topLineWidth);
+        }
+
+        private static getBottomLineWidth(dataView: DataView): number {
+            return dataView && dataView.metadata && DualKpi.getValue(dataView.metadata.objects, DualKpi.properties.bottomLineWidth, DualKpi.defaultValues.bottomLineWidth);
+        }
+
+        private static getTopGradient(dataView: DataView): boolean {
+            return dataView && dataView.metadata && DualKpi.getValue(dataView.metadata.objects, DualKpi.properties.topGradient, DualKpi.defaultValues.topGradient);
+        }
+
+        private static getBottomGradient(dataView: DataView): boolean {
+            return dataView && dataView.metadata && DualKpi.getValue(dataView.metadata.objects, DualKpi.properties.bottomGradient, DualKpi.defaultValues.bottomGradient);
+        }
+
+        private static getTopBelowZeroColor(dataView: DataView): Fill {
+            return dataView && dataView.metadata && DualKpi.getValue(dataView.metadata.objects, DualKpi.properties.topBelowZeroColor, DualKpi.defaultValues.topBelowZeroColor);
+        }
+
+        private static getBottomBelowZeroColor(dataView: DataView): Fill {
+            return dataView && dataView.metadata && DualKpi.getValue(dataView.metadata.objects, DualKpi.properties.bottomBelowZeroColor, DualKpi.defaultValues.bottomBelowZeroColor);
+        }
+
         private static getTopChartAxisMin(dataView: DataView): number {
             return dataView && dataView.metadata && DualKpi.getValue(dataView.metadata.objects, DualKpi.properties.topChartAxisMin, DualKpi.defaultValues.topChartAxisMin);
         }
@@ -696,66 +2007,794 @@ module powerbi.extensibility.visual {
             return dataView && dataView.metadata && DualKpi.getValue(dataView.metadata.objects, DualKpi.properties.bottomChartType, DualKpi.defaultValues.bottomChartType);
         }
 
-        private static getDaysBetween(date1: Date, date2: Date): number {
-            let oneDay = 24 * 60 * 60 * 1000; // hours*minutes*seconds*milliseconds
-            let dayRange = Math.round(Math.abs(date1.getTime() - date2.getTime()) / oneDay);
-            return dayRange;
+        private static getLayout(dataView: DataView): string {
+            return dataView && dataView.metadata && DualKpi.getValue(dataView.metadata.objects, DualKpi.properties.layout, DualKpi.defaultValues.layout);
         }
 
-        private static percentFormatter(value: number, showPlusMinus?: boolean): string {
-            var prefix = value >= 0 ? "+" : "",
-                valueString = (value * 100).toFixed(1) + "%";
+        private static getShowMinMarker(dataView: DataView): boolean {
+            return dataView && dataView.metadata && DualKpi.getValue(dataView.metadata.objects, DualKpi.properties.showMinMarker, DualKpi.defaultValues.showMinMarker);
+        }
 
-            if (showPlusMinus) {
-                valueString = prefix + valueString;
-            }
+        private static getShowMaxMarker(dataView: DataView): boolean {
+            return dataView && dataView.metadata && DualKpi.getValue(dataView.metadata.objects, DualKpi.properties.showMaxMarker, DualKpi.defaultValues.showMaxMarker);
+        }
 
-            return valueString;
+        private static getShowLatestMarker(dataView: DataView): boolean {
+            return dataView && dataView.metadata && DualKpi.getValue(dataView.metadata.objects, DualKpi.properties.showLatestMarker, DualKpi.defaultValues.showLatestMarker);
         }
 
-        private static getPercentChange(startValue: number, endValue: number): string {
-            if (startValue === 0) {
-                return "n/a";
-            }
+        private static getTopComparisonType(dataView: DataView): string {
+            return dataView && dataView.metadata && DualKpi.getValue(dataView.metadata.objects, DualKpi.properties.topComparisonType, DualKpi.defaultValues.topComparisonType);
+        }
 
-            let diff = endValue - startValue;
-            let percentChange = Math.abs(diff / startValue);
+        private static getBottomComparisonType(dataView: DataView): string {
+            return dataView && dataView.metadata && DualKpi.getValue(dataView.metadata.objects, DualKpi.properties.bottomComparisonType, DualKpi.defaultValues.bottomComparisonType);
+        }
 
-            if (endValue < startValue) {
-                percentChange = percentChange * -1;
-            }
+        private static getSyncBrush(dataView: DataView): boolean {
+            return dataView && dataView.metadata && DualKpi.getValue(dataView.metadata.objects, DualKpi.properties.syncBrush, DualKpi.defaultValues.syncBrush);
+        }
+
+        private static getClickToSetPercentDate(dataView: DataView): boolean {
+            return dataView && dataView.metadata && DualKpi.getValue(dataView.metadata.objects, DualKpi.properties.clickToSetPercentDate, DualKpi.defaultValues.clickToSetPercentDate);
+        }
+
+        private static getErrorThreshold(dataView: DataView): number {
+            return dataView && dataView.metadata && DualKpi.getValue(dataView.metadata.objects, DualKpi.properties.errorThreshold, DualKpi.defaultValues.errorThreshold);
+        }
+
+        private static getWarningThreshold(dataView: DataView): number {
+            return dataView && dataView.metadata && DualKpi.getValue(dataView.metadata.objects, DualKpi.properties.warningThreshold, DualKpi.defaultValues.warningThreshold);
+        }
+
+        private static getErrorColor(dataView: DataView): Fill {
+            return dataView && dataView.metadata && DualKpi.getValue(dataView.metadata.objects, DualKpi.properties.errorColor, { solid: { color: DualKpi.defaultValues.errorColor } });
+        }
+
+        private static getWarningColor(dataView: DataView): Fill {
+            return dataView && dataView.metadata && DualKpi.getValue(dataView.metadata.objects, DualKpi.properties.warningColor, { solid: { color: DualKpi.defaultValues.warningColor } });
+        }
+
+        private static getOkColor(dataView: DataView): Fill {
+            return dataView && dataView.metadata && DualKpi.getValue(dataView.metadata.objects, DualKpi.properties.okColor, { solid: { color: DualKpi.defaultValues.okColor } });
+        }
+
+        private static getWarningLevelTooltipText(dataView: DataView): string {
+            return dataView && dataView.metadata && DualKpi.getValue(dataView.metadata.objects, DualKpi.properties.warningLevelTooltipText, DualKpi.defaultValues.warningLevelTooltipText);
+        }
+
+        private static getOkTooltipText(dataView: DataView): string {
+            return dataView && dataView.metadata && DualKpi.getValue(dataView.metadata.objects, DualKpi.properties.okTooltipText, DualKpi.defaultValues.okTooltipText);
+        }
+
+        private static getShowOkState(dataView: DataView): boolean {
+            return dataView && dataView.metadata && DualKpi.getValue(dataView.metadata.objects, DualKpi.properties.showOkState, DualKpi.defaultValues.showOkState);
+        }
+
+        private static getColorRule(dataView: DataView): string {
+            return dataView && dataView.metadata && DualKpi.getValue(dataView.metadata.objects, DualKpi.properties.colorRule, DualKpi.defaultValues.colorRule);
+        }
+
+        private static getTopPolarity(dataView: DataView): string {
+            return dataView && dataView.metadata && DualKpi.getValue(dataView.metadata.objects, DualKpi.properties.topPolarity, DualKpi.defaultValues.topPolarity);
+        }
+
+        private static getBottomPolarity(dataView: DataView): string {
+            return dataView && dataView.metadata && DualKpi.getValue(dataView.metadata.objects, DualKpi.properties.bottomPolarity, DualKpi.defaultValues.bottomPolarity);
+        }
+
+        private static getTopGoodThreshold(dataView: DataView): number {
+            return dataView && dataView.metadata && DualKpi.getValue(dataView.metadata.objects, DualKpi.properties.topGoodThreshold, DualKpi.defaultValues.topGoodThreshold);
+        }
+
+        private static getTopBadThreshold(dataView: DataView): number {
+            return dataView && dataView.metadata && DualKpi.getValue(dataView.metadata.objects, DualKpi.properties.topBadThreshold, DualKpi.defaultValues.topBadThreshold);
+        }
+
+        private static getBottomGoodThreshold(dataView: DataView): number {
+            return dataView && dataView.metadata && DualKpi.getValue(dataView.metadata.objects, DualKpi.properties.bottomGoodThreshold, DualKpi.defaultValues.bottomGoodThreshold);
+        }
+
+        private static getBottomBadThreshold(dataView: DataView): number {
+            return dataView && dataView.metadata && DualKpi.getValue(dataView.metadata.objects, DualKpi.properties.bottomBadThreshold, DualKpi.defaultValues.bottomBadThreshold);
+        }
+
+        private static getGoodColor(dataView: DataView): Fill {
+            return dataView && dataView.metadata && DualKpi.getValue(dataView.metadata.objects, DualKpi.properties.goodColor, { solid: { color: DualKpi.defaultValues.goodColor } });
+        }
+
+        private static getBadColor(dataView: DataView): Fill {
+            return dataView && dataView.metadata && DualKpi.getValue(dataView.metadata.objects, DualKpi.properties.badColor, { solid: { color: DualKpi.defaultValues.badColor } });
+        }
+
+        private static getColorValue(dataView: DataView): boolean {
+            return dataView && dataView.metadata && DualKpi.getValue(dataView.metadata.objects, DualKpi.properties.colorValue, DualKpi.defaultValues.colorValue);
+        }
+
+        private static getColorPercentChange(dataView: DataView): boolean {
+            return dataView && dataView.metadata && DualKpi.getValue(dataView.metadata.objects, DualKpi.properties.colorPercentChange, DualKpi.defaultValues.colorPercentChange);
+        }
+
+        private static getColorSeries(dataView: DataView): boolean {
+            return dataView && dataView.metadata && DualKpi.getValue(dataView.metadata.objects, DualKpi.properties.colorSeries, DualKpi.defaultValues.colorSeries);
+        }
+
+        private static getShowArrows(dataView: DataView): boolean {
+            return dataView && dataView.metadata && DualKpi.getValue(dataView.metadata.objects, DualKpi.properties.showArrows, DualKpi.defaultValues.showArrows);
+        }
+
+        private static getGranularity(dataView: DataView): string {
+            return dataView && dataView.metadata && DualKpi.getValue(dataView.metadata.objects, DualKpi.properties.granularity, DualKpi.defaultValues.granularity);
+        }
+
+        private static getAggregation(dataView: DataView): string {
+            return dataView && dataView.metadata && DualKpi.getValue(dataView.metadata.objects, DualKpi.properties.aggregation, DualKpi.defaultValues.aggregation);
+        }
+
+        private static getTopMissingValues(dataView: DataView): string {
+            return dataView && dataView.metadata && DualKpi.getValue(dataView.metadata.objects, DualKpi.properties.topMissingValues, DualKpi.defaultValues.topMissingValues);
+        }
+
+        private static getBottomMissingValues(dataView: DataView): string {
+            return dataView && dataView.metadata && DualKpi.getValue(dataView.metadata.objects, DualKpi.properties.bottomMissingValues, DualKpi.defaultValues.bottomMissingValues);
+        }
+
+        private static getDuplicateAggregation(dataView: DataView): string {
+            return dataView && dataView.metadata && DualKpi.getValue(dataView.metadata.objects, DualKpi.properties.duplicateAggregation, DualKpi.defaultValues.duplicateAggregation);
+        }
+
+        private static getShowDiagnostics(dataView: DataView): boolean {
+            return dataView && dataView.metadata && DualKpi.getValue(dataView.metadata.objects, DualKpi.properties.showDiagnostics, DualKpi.defaultValues.showDiagnostics);
+        }
+
+        private static getTopDisplayUnits(dataView: DataView): string {
+            return dataView && dataView.metadata && DualKpi.getValue(dataView.metadata.objects, DualKpi.properties.topDisplayUnits, DualKpi.defaultValues.topDisplayUnits);
+        }
+
+        private static getBottomDisplayUnits(dataView: DataView): string {
+            return dataView && dataView.metadata && DualKpi.getValue(dataView.metadata.objects, DualKpi.properties.bottomDisplayUnits, DualKpi.defaultValues.bottomDisplayUnits);
+        }
+
+        private static getTopDecimalPlaces(dataView: DataView): number {
+            return dataView && dataView.metadata && DualKpi.getValue(dataView.metadata.objects, DualKpi.properties.topDecimalPlaces, DualKpi.defaultValues.topDecimalPlaces);
+        }
+
+        private static getBottomDecimalPlaces(dataView: DataView): number {
+            return dataView && dataView.metadata && DualKpi.getValue(dataView.metadata.objects, DualKpi.properties.bottomDecimalPlaces, DualKpi.defaultValues.bottomDecimalPlaces);
+        }
+
+        private static getHoverDateFormat(dataView: DataView): string {
+            return dataView && dataView.metadata && DualKpi.getValue(dataView.metadata.objects, DualKpi.properties.hoverDateFormat, DualKpi.defaultValues.hoverDateFormat);
+        }
+
+        private static getHoverDateCustomFormat(dataView: DataView): string {
+            return dataView && dataView.metadata && DualKpi.getValue(dataView.metadata.objects, DualKpi.properties.hoverDateCustomFormat, DualKpi.defaultValues.hoverDateCustomFormat);
+        }
+
+        private static getTooltipDateFormat(dataView: DataView): string {
+            return dataView && dataView.metadata && DualKpi.getValue(dataView.metadata.objects, DualKpi.properties.tooltipDateFormat, DualKpi.defaultValues.tooltipDateFormat);
+        }
+
+        private static getTooltipDateCustomFormat(dataView: DataView): string {
+            return dataView && dataView.metadata && DualKpi.getValue(dataView.metadata.objects, DualKpi.properties.tooltipDateCustomFormat, DualKpi.defaultValues.tooltipDateCustomFormat);
+        }
+
+        private static getDateRangeFormat(dataView: DataView): string {
+            return dataView && dataView.metadata && DualKpi.getValue(dataView.metadata.objects, DualKpi.properties.dateRangeFormat, DualKpi.defaultValues.dateRangeFormat);
+        }
+
+        private static getTopTrendLine(dataView: DataView): string {
+            return dataView && dataView.metadata && DualKpi.getValue(dataView.metadata.objects, DualKpi.properties.topTrendLine, DualKpi.defaultValues.topTrendLine);
+        }
+
+        private static getTopMovingAverage(dataView: DataView): string {
+            return dataView && dataView.metadata && DualKpi.getValue(dataView.metadata.objects, DualKpi.properties.topMovingAverage, DualKpi.defaultValues.topMovingAverage);
+        }
+
+        private static getTopMovingAveragePeriods(dataView: DataView): number {
+            return dataView && dataView.metadata && DualKpi.getValue(dataView.metadata.objects, DualKpi.properties.topMovingAveragePeriods, DualKpi.defaultValues.topMovingAveragePeriods);
+        }
+
+        private static getBottomTrendLine(dataView: DataView): string {
+            return dataView && dataView.metadata && DualKpi.getValue(dataView.metadata.objects, DualKpi.properties.bottomTrendLine, DualKpi.defaultValues.bottomTrendLine);
+        }
+
+        private static getBottomMovingAverage(dataView: DataView): string {
+            return dataView && dataView.metadata && DualKpi.getValue(dataView.metadata.objects, DualKpi.properties.bottomMovingAverage, DualKpi.defaultValues.bottomMovingAverage);
+        }
+
+        private static getBottomMovingAveragePeriods(dataView: DataView): number {
+            return dataView && dataView.metadata && DualKpi.getValue(dataView.metadata.objects, DualKpi.properties.bottomMovingAveragePeriods, DualKpi.defaultValues.bottomMovingAveragePeriods);
+        }
+
+        private static getTopProjection(dataView: DataView): string {
+            return dataView && dataView.metadata && DualKpi.getValue(dataView.metadata.objects, DualKpi.properties.topProjection, DualKpi.defaultValues.topProjection);
+        }
+
+        private static getBottomProjection(dataView: DataView): string {
+            return dataView && dataView.metadata && DualKpi.getValue(dataView.metadata.objects, DualKpi.properties.bottomProjection, DualKpi.defaultValues.bottomProjection);
+        }
+
+        private static getShowAnomalies(dataView: DataView): boolean {
+            return dataView && dataView.metadata && DualKpi.getValue(dataView.metadata.objects, DualKpi.properties.showAnomalies, DualKpi.defaultValues.showAnomalies);
+        }
+
+        private static getAnomalyWindow(dataView: DataView): number {
+            return dataView && dataView.metadata && DualKpi.getValue(dataView.metadata.objects, DualKpi.properties.anomalyWindow, DualKpi.defaultValues.anomalyWindow);
+        }
+
+        private static getAnomalyDeviations(dataView: DataView): number {
+            return dataView && dataView.metadata && DualKpi.getValue(dataView.metadata.objects, DualKpi.properties.anomalyDeviations, DualKpi.defaultValues.anomalyDeviations);
+        }
+
+        private static getAnomalyColor(dataView: DataView): Fill {
+            return dataView && dataView.metadata && DualKpi.getValue(dataView.metadata.objects, DualKpi.properties.anomalyColor, { solid: { color: DualKpi.defaultValues.anomalyColor } });
+        }
+
+        private static getDaysBetween(date1: Date, date2: Date): number {
+            let oneDay = 24 * 60 * 60 * 1000; // hours*minutes*seconds*milliseconds
+            let dayRange = Math.round(Math.abs(date1.getTime() - date2.getTime()) / oneDay);
+            return dayRange;
+        }
+
+        /*
+        *   age of the latest data in whole hours, days or business days, business days skip the weekend
+        */
+        private static getDataAge(latestDate: Date, referenceDate: Date, unit: string, weekend: string): number {
+            if (referenceDate <= latestDate) {
+                return 0;
+            }
+
+            switch (unit) {
+                case "hours":
+                    return Math.floor((referenceDate.getTime() - latestDate.getTime()) / (60 * 60 * 1000));
+                case "businessDays":
+                    let weekendDays: Array<number> = DualKpi.weekendDays[weekend] || DualKpi.weekendDays.saturdaySunday;
+                    let days = d3.time.days(d3.time.day.offset(d3.time.day.floor(latestDate), 1), d3.time.day.offset(d3.time.day.floor(referenceDate), 1));
+                    return days.filter((day) => weekendDays.indexOf(day.getDay()) === -1).length;
+                default:
+                    return DualKpi.getDaysBetween(latestDate, referenceDate);
+            }
+        }
+
+        /*
+        *   number of whole periods of the given granularity between two dates
+        */
+        private static getPeriodsBetween(date1: Date, date2: Date, granularity: string): number {
+            let monthRange = Math.abs((date2.getFullYear() - date1.getFullYear()) * 12 + date2.getMonth() - date1.getMonth());
+
+            switch (granularity) {
+                case "week":
+                    return Math.round(DualKpi.getDaysBetween(date1, date2) / 7);
+                case "month":
+                    return monthRange;
+                case "quarter":
+                    return Math.round(monthRange / 3);
+                case "year":
+                    return Math.round(monthRange / 12);
+                default:
+                    return DualKpi.getDaysBetween(date1, date2);
+            }
+        }
+
+        private static getPeriodName(granularity: string, strings: IDualKpiStrings): string {
+            switch (granularity) {
+                case "week":
+                    return strings.weeks;
+                case "month":
+                    return strings.months;
+                case "quarter":
+                    return strings.quarters;
+                case "year":
+                    return strings.years;
+                default:
+                    return strings.days;
+            }
+        }
+
+        /*
+        *   first date of the bucket a date falls into, dates are returned as is when data isn't resampled
+        */
+        private static getPeriodStart(date: Date, granularity: string): Date {
+            if (!date || isNaN(date.getTime())) {
+                return date;
+            }
+
+            switch (granularity) {
+                case "day":
+                    return d3.time.day.floor(date);
+                case "week":
+                    return d3.time.week.floor(date);
+                case "month":
+                    return d3.time.month.floor(date);
+                case "quarter":
+                    let monthStart = d3.time.month.floor(date);
+                    monthStart.setMonth(monthStart.getMonth() - (monthStart.getMonth() % 3));
+                    return monthStart;
+                case "year":
+                    return d3.time.year.floor(date);
+                default:
+                    return date;
+            }
+        }
+
+        /*
+        *   first date after the bucket that starts at the given date
+        */
+        private static getPeriodEnd(periodStart: Date, granularity: string): Date {
+            switch (granularity) {
+                case "week":
+                    return d3.time.week.offset(periodStart, 1);
+                case "month":
+                    return d3.time.month.offset(periodStart, 1);
+                case "quarter":
+                    return d3.time.month.offset(periodStart, 3);
+                case "year":
+                    return d3.time.year.offset(periodStart, 1);
+                default:
+                    return d3.time.day.offset(periodStart, 1);
+            }
+        }
+
+        /*
+        *   extends a value that accumulates from zero since the start of the projection period to the end of that period
+        *   at its current rate, null when the latest point already covers the whole period
+        */
+        private static getProjection(latestPoint: IDualKpiDataPoint, projectionPeriod: string, granularity: string): IDualKpiDataPoint {
+            let periodStart = DualKpi.getPeriodStart(latestPoint.date, projectionPeriod),
+                periodEnd = DualKpi.getPeriodEnd(periodStart, projectionPeriod);
+
+            // the latest point counts up to the end of its own day, or of its bucket when data is resampled
+            let pointGranularity = granularity === "none" ? "day" : granularity;
+            let coveredUntil = DualKpi.getPeriodEnd(DualKpi.getPeriodStart(latestPoint.date, pointGranularity), pointGranularity);
+
+            if (coveredUntil >= periodEnd) {
+                return null;
+            }
+
+            let elapsed = coveredUntil.getTime() - periodStart.getTime(),
+                total = periodEnd.getTime() - periodStart.getTime();
+
+            return {
+                date: d3.time.day.offset(periodEnd, -1),
+                value: latestPoint.value * total / elapsed
+            };
+        }
+
+        private static getDateFormatter(granularity: string, localization: IDualKpiLocalization): Function {
+            let strings = localization.strings;
+            let dayFormat = new Intl.DateTimeFormat(localization.locale, { year: "2-digit", month: "2-digit", day: "2-digit" });
+
+            switch (granularity) {
+                case "week":
+                    return (date: Date) => DualKpi.formatString(strings.weekOf, dayFormat.format(date));
+                case "month":
+                    let monthFormat = new Intl.DateTimeFormat(localization.locale, { year: "numeric", month: "short" });
+                    return (date: Date) => monthFormat.format(date);
+                case "quarter":
+                    return (date: Date) => DualKpi.formatString(strings.quarter, Math.floor(date.getMonth() / 3) + 1, date.getFullYear());
+                case "year":
+                    return (date: Date) => String(date.getFullYear());
+                default:
+                    return (date: Date) => dayFormat.format(date);
+            }
+        }
+
+        /*
+        *   date format chosen in the formatting pane, auto follows the granularity of the data
+        *   and custom patterns use d3 time format directives such as %d.%m.%Y
+        */
+        private static getDateFormat(format: string, customFormat: string, granularity: string, localization: IDualKpiLocalization): Function {
+            switch (format) {
+                case "short":
+                    return DualKpi.getDateFormatter("none", localization);
+                case "long":
+                    let longFormat = new Intl.DateTimeFormat(localization.locale, { year: "numeric", month: "long", day: "numeric" });
+                    return (date: Date) => longFormat.format(date);
+                case "iso":
+                    return d3.time.format("%Y-%m-%d");
+                case "custom":
+                    if (customFormat) {
+                        return d3.time.format(customFormat);
+                    }
+                    break;
+            }
+
+            return DualKpi.getDateFormatter(granularity, localization);
+        }
+
+        /*
+        *   guesses the period of a series from the smallest gap between its points
+        */
+        private static inferGranularity(chartData: Array<IDualKpiDataPoint>): string {
+            if (chartData.length < 2) {
+                return "none";
+            }
+
+            let smallestGap = Infinity;
+            for (let i = 1; i < chartData.length; i++) {
+                smallestGap = Math.min(smallestGap, DualKpi.getDaysBetween(chartData[i - 1].date, chartData[i].date));
+            }
+
+            if (smallestGap >= 365) {
+                return "year";
+            } else if (smallestGap >= 89) {
+                return "quarter";
+            } else if (smallestGap >= 28) {
+                return "month";
+            }
+
+            return "none";
+        }
+
+        /*
+        *   picks the resource strings and percent format for a locale such as "de-DE",
+        *   unknown or invalid locales fall back to English
+        */
+        private static getLocalization(locale: string): IDualKpiLocalization {
+            try {
+                new Intl.NumberFormat(locale);
+            } catch (e) {
+                locale = "en-US";
+            }
+
+            let language = String(locale).split("-")[0].toLowerCase();
+            let strings = DualKpi.localizedStrings[language] || DualKpi.localizedStrings["en"];
+
+            return {
+                locale: locale,
+                strings: strings,
+                percentFormat: new Intl.NumberFormat(locale, { style: "percent", minimumFractionDigits: 1, maximumFractionDigits: 1 })
+            };
+        }
+
+        private static formatString(template: string, ...args: Array<string | number>): string {
+            return template.replace(/\{(\d+)\}/g, (match: string, index: string) => String(args[Number(index)]));
+        }
+
+        private static aggregate(values: Array<number>, aggregation: string): number {
+            let definedValues = values.filter((value) => value !== null && value !== undefined);
+
+            if (definedValues.length === 0) {
+                return null;
+            }
+
+            switch (aggregation) {
+                case "average":
+                    return d3.mean(definedValues);
+                case "last":
+                    return definedValues[definedValues.length - 1];
+                case "min":
+                    return d3.min(definedValues);
+                case "max":
+                    return d3.max(definedValues);
+                default:
+                    return d3.sum(definedValues);
+            }
+        }
+
+        /*
+        *   rebuckets a series into day/week/month/quarter periods, each bucket is dated at the start of its period
+        */
+        private static resample(chartData: Array<IDualKpiDataPoint>, granularity: string, aggregation: string): Array<IDualKpiDataPoint> {
+            if (granularity === "none" || chartData.length === 0) {
+                return chartData;
+            }
+
+            return DualKpi.aggregateByDate(chartData, (date: Date) => DualKpi.getPeriodStart(date, granularity), aggregation);
+        }
+
+        /*
+        *   sorts a series by date and merges points that share the same date
+        */
+        private static mergeDuplicateDates(chartData: Array<IDualKpiDataPoint>, aggregation: string): Array<IDualKpiDataPoint> {
+            return DualKpi.aggregateByDate(chartData, (date: Date) => date, aggregation);
+        }
+
+        private static aggregateByDate(chartData: Array<IDualKpiDataPoint>, getBucketDate: (date: Date) => Date, aggregation: string): Array<IDualKpiDataPoint> {
+            // nest keeps the original row order within a bucket, so "last" is the last row for that date
+            let buckets = d3.nest<IDualKpiDataPoint>()
+                .key((d: IDualKpiDataPoint) => String(getBucketDate(d.date).getTime()))
+                .sortKeys((a, b) => Number(a) - Number(b))
+                .entries(chartData);
+
+            return buckets.map((bucket) => {
+                let points: Array<IDualKpiDataPoint> = bucket.values;
+                return {
+                    date: new Date(Number(bucket.key)),
+                    value: DualKpi.aggregate(points.map((d) => d.value), aggregation),
+                    target: DualKpi.aggregate(points.map((d) => d.target), aggregation),
+                    comparison: DualKpi.aggregate(points.map((d) => d.comparison), aggregation),
+                    lowerBound: DualKpi.aggregate(points.map((d) => d.lowerBound), aggregation),
+                    upperBound: DualKpi.aggregate(points.map((d) => d.upperBound), aggregation)
+                };
+            });
+        }
+
+        private static isDefinedPoint(dataPoint: IDualKpiDataPoint): boolean {
+            return dataPoint.value !== null && dataPoint.value !== undefined && !isNaN(dataPoint.value);
+        }
+
+        /*
+        *   fits a line through the points, null when there aren't two distinct dates to fit against
+        */
+        private static getLinearTrend(points: Array<IDualKpiDataPoint>): ILinearTrend {
+            let n = points.length;
+            if (n < 2) {
+                return null;
+            }
+
+            // dates are centered on the first point to keep the sums small
+            let origin = points[0].date.getTime();
+            let sumX = 0, sumY = 0, sumXY = 0, sumXX = 0;
+            points.forEach((d: IDualKpiDataPoint) => {
+                let x = d.date.getTime() - origin;
+                sumX += x;
+                sumY += d.value;
+                sumXY += x * d.value;
+                sumXX += x * x;
+            });
+
+            let denominator = n * sumXX - sumX * sumX;
+            if (denominator === 0) {
+                return null;
+            }
+
+            let slope = (n * sumXY - sumX * sumY) / denominator;
+            return {
+                slope: slope,
+                intercept: (sumY - slope * sumX) / n - slope * origin
+            };
+        }
+
+        /*
+        *   simple average of the last n points, or an exponential average weighting recent points by 2 / (n + 1),
+        *   simple averages start once n points are available
+        */
+        private static getMovingAverage(points: Array<IDualKpiDataPoint>, periods: number, type: string): Array<IDualKpiDataPoint> {
+            let averages: Array<IDualKpiDataPoint> = [];
+            let alpha = 2 / (periods + 1);
+            let sum = 0, average: number = null;
+
+            points.forEach((d: IDualKpiDataPoint, i: number) => {
+                if (type === "exponential") {
+                    average = average === null ? d.value : alpha * d.value + (1 - alpha) * average;
+                    averages.push({ date: d.date, value: average });
+                    return;
+                }
+
+                sum += d.value;
+                if (i >= periods) {
+                    sum -= points[i - periods].value;
+                }
+
+                if (i >= periods - 1) {
+                    averages.push({ date: d.date, value: sum / periods });
+                }
+            });
+
+            return averages;
+        }
+
+        /*
+        *   flags points outside the band bound in data, or else outside the mean of the previous points
+        *   plus or minus the given number of standard deviations
+        */
+        private static detectAnomalies(chartData: Array<IDualKpiDataPoint>, hasBand: boolean, window: number, deviations: number): void {
+            // filled in points aren't data, so they are neither flagged nor part of the history
+            let definedData = DualKpi.getDefinedPoints(chartData).filter((d: IDualKpiDataPoint) => !d.filled);
+
+            definedData.forEach((d: IDualKpiDataPoint, i: number) => {
+                let lower: number = null, upper: number = null;
+
+                if (hasBand) {
+                    lower = d.lowerBound !== undefined ? d.lowerBound : null;
+                    upper = d.upperBound !== undefined ? d.upperBound : null;
+                } else {
+                    // the first points have too little history to judge, after a flat history
+                    // (zero deviation) any real move away from the mean is an anomaly
+                    let previous = definedData.slice(Math.max(0, i - window), i);
+                    let deviation = previous.length >= Math.min(window, 3) ? d3.deviation(previous, (p) => p.value) : undefined;
+                    if (deviation === undefined) {
+                        return;
+                    }
+
+                    // the minimum spread keeps floating point noise on a flat history from being flagged
+                    let mean = d3.mean(previous, (p) => p.value);
+                    let spread = Math.max(deviations * deviation, Math.abs(mean) * 1e-6, 1e-9);
+                    lower = mean - spread;
+                    upper = mean + spread;
+                }
+
+                if ((lower !== null && d.value < lower) || (upper !== null && d.value > upper)) {
+                    d.anomaly = { lower: lower, upper: upper };
+                }
+            });
+        }
+
+        /*
+        *   the values of the first bound measure, the shared date axis texts are taken from them
+        */
+        private static getPrimaryValues(data: IDualKpiData): Array<IDualKpiDataPoint> {
+            let series = [data.topValues, data.bottomValues].concat(data.additionalSeries.map((s: IDualKpiSeries) => s.values));
+            for (let i = 0; i < series.length; i++) {
+                if (series[i].length > 0) {
+                    return series[i];
+                }
+            }
+
+            return [];
+        }
+
+        private static createSeries(column: DataViewMetadataColumn, seriesIndex: number): IDualKpiSeries {
+            let objects = column.objects;
+            let valueAsPercent = DualKpi.getFormatSymbol(column.format) === "%";
+            let defaultColor = DualKpi.seriesColors[seriesIndex % DualKpi.seriesColors.length];
+            let dataColor: Fill = DualKpi.getValue(objects, DualKpi.properties.seriesDataColor, { solid: { color: defaultColor } });
+            let displayUnits: string = DualKpi.getValue(objects, DualKpi.properties.seriesDisplayUnits, DualKpi.defaultValues.seriesDisplayUnits);
+            let decimalPlaces: number = DualKpi.getValue(objects, DualKpi.properties.seriesDecimalPlaces, DualKpi.defaultValues.seriesDecimalPlaces);
+            let belowZeroColor: Fill = DualKpi.getValue(objects, DualKpi.properties.seriesBelowZeroColor, DualKpi.defaultValues.seriesBelowZeroColor);
+            let movingAveragePeriods: number = DualKpi.getValue(objects, DualKpi.properties.seriesMovingAveragePeriods, DualKpi.defaultValues.seriesMovingAveragePeriods);
+
+            return {
+                name: column.displayName,
+                queryName: column.queryName,
+                values: [],
+                latestDate: null,
+                valueAsPercent: valueAsPercent,
+                valueFormat: null,
+                format: column.format,
+                chartType: DualKpi.getValue(objects, DualKpi.properties.seriesChartType, DualKpi.defaultValues.seriesChartType),
+                dataColor: dataColor.solid.color,
+                lineWidth: Math.max(0, DualKpi.getValue(objects, DualKpi.properties.seriesLineWidth, DualKpi.defaultValues.seriesLineWidth)),
+                zeroLine: DualKpi.getValue(objects, DualKpi.properties.seriesZeroLine, DualKpi.defaultValues.seriesZeroLine),
+                polarity: DualKpi.getValue(objects, DualKpi.properties.seriesPolarity, DualKpi.defaultValues.seriesPolarity),
+                displayUnits: displayUnits,
+                decimalPlaces: decimalPlaces,
+                missingValues: DualKpi.getValue(objects, DualKpi.properties.seriesMissingValues, DualKpi.defaultValues.seriesMissingValues),
+                gradient: DualKpi.getValue(objects, DualKpi.properties.seriesGradient, DualKpi.defaultValues.seriesGradient),
+                belowZeroColor: belowZeroColor && belowZeroColor.solid ? belowZeroColor.solid.color : null,
+                percentCalcDateExpression: DualKpi.getValue(objects, DualKpi.properties.seriesPercentCalcDate, DualKpi.defaultValues.seriesPercentCalcDate),
+                percentCalcEndDateExpression: DualKpi.getValue(objects, DualKpi.properties.seriesPercentCalcEndDate, DualKpi.defaultValues.seriesPercentCalcEndDate),
+                percentCalcDate: null,
+                percentCalcEndDate: null,
+                trendLine: DualKpi.getValue(objects, DualKpi.properties.seriesTrendLine, DualKpi.defaultValues.seriesTrendLine),
+                movingAverage: DualKpi.getValue(objects, DualKpi.properties.seriesMovingAverage, DualKpi.defaultValues.seriesMovingAverage),
+                movingAveragePeriods: Math.max(1, Math.round(movingAveragePeriods || 1)),
+                projection: DualKpi.getValue(objects, DualKpi.properties.seriesProjection, DualKpi.defaultValues.seriesProjection)
+            };
+        }
+
+        private static getLatestDefinedDate(chartData: Array<IDualKpiDataPoint>): Date {
+            for (let i = chartData.length - 1; i >= 0; i--) {
+                if (DualKpi.isDefinedPoint(chartData[i])) {
+                    return chartData[i].date;
+                }
+            }
+
+            return null;
+        }
+
+        private static getDefinedPoints(chartData: Array<IDualKpiDataPoint>): Array<IDualKpiDataPoint> {
+            return chartData.filter(DualKpi.isDefinedPoint);
+        }
+
+        /*
+        *   replaces null values according to the missing values mode,
+        *   in "gap" mode nulls are kept so the series is broken where they occur
+        */
+        private static fillMissingValues(chartData: Array<IDualKpiDataPoint>, mode: string): void {
+            let previousIndex = -1;
+
+            for (let i = 0; i < chartData.length; i++) {
+                let dataPoint = chartData[i];
+
+                if (DualKpi.isDefinedPoint(dataPoint)) {
+                    previousIndex = i;
+                    continue;
+                }
+
+                dataPoint.value = null;
+
+                if (mode === "zero") {
+                    dataPoint.value = 0;
+                } else if (mode === "carryForward" && previousIndex > -1) {
+                    dataPoint.value = chartData[previousIndex].value;
+                } else if (mode === "interpolate" && previousIndex > -1) {
+                    let nextIndex = i + 1;
+                    while (nextIndex < chartData.length && !DualKpi.isDefinedPoint(chartData[nextIndex])) {
+                        nextIndex++;
+                    }
+
+                    // can only interpolate between two known values, trailing nulls stay missing
+                    if (nextIndex < chartData.length) {
+                        let previous = chartData[previousIndex],
+                            next = chartData[nextIndex],
+                            ratio = (dataPoint.date.getTime() - previous.date.getTime()) / (next.date.getTime() - previous.date.getTime());
+
+                        dataPoint.value = previous.value + (next.value - previous.value) * (ratio || 0);
+                    }
+                }
+
+                dataPoint.filled = dataPoint.value !== null;
+            }
+        }
+
+        private percentFormatter(value: number, showPlusMinus?: boolean): string {
+            var prefix = value >= 0 ? "+" : "",
+                valueString = this.localization.percentFormat.format(value);
+
+            if (showPlusMinus) {
+                valueString = prefix + valueString;
+            }
+
+            return valueString;
+        }
+
+        private getPercentChange(startValue: number, endValue: number): string {
+            if (startValue === 0) {
+                return this.localization.strings.notApplicable;
+            }
+
+            let diff = endValue - startValue;
+            let percentChange = Math.abs(diff / startValue);
+
+            if (endValue < startValue) {
+                percentChange = percentChange * -1;
+            }
 
             return this.percentFormatter(percentChange, true);
         }
 
-        private static getPercentChangeStartPoint(chartData: Array<IDualKpiDataPoint>, percentCalcDate: Date): IDualKpiDataPoint {
-            if (percentCalcDate !== null) {
-                let closestIndex = 0,
-                    percentCalcDateTime = percentCalcDate.getTime(),
-                    i, currTime;
-
-                // keep track of closest date to configured date
-                // as soon as we find a date that is more recent than configured date
-                // break and use the last date that was older than configured date.
-                // always break if we find a date that is exactly equal
-                for (i = 0; i < chartData.length; i++) {
-                    currTime = chartData[i].date.getTime();
-
-                    if (currTime === percentCalcDateTime) {
-                        closestIndex = i;
-                        break;
-                    }
-                    else if (currTime < percentCalcDateTime) {
-                        closestIndex = i;
-                    }
-                    else {
-                        break;
-                    }
+        private getPercentChangeText(startValue: number, endValue: number, valueAsPercent: boolean): string {
+            // if value is a percent, only show difference changed, not percent of percent
+            if (valueAsPercent) {
+                return this.percentFormatter((endValue - startValue) / 100, true);
+            }
+
+            return this.getPercentChange(startValue, endValue);
+        }
+
+        private static getPercentChangeStartPoint(chartData: Array<IDualKpiDataPoint>, percentCalcDate: Date): IDualKpiDataPoint {
+            if (percentCalcDate !== null) {
+                return DualKpi.getPointOnOrBefore(chartData, percentCalcDate);
+            }
+
+            return chartData[0];
+        }
+
+        private static getPercentChangeEndPoint(chartData: Array<IDualKpiDataPoint>, percentCalcEndDate: Date): IDualKpiDataPoint {
+            if (percentCalcEndDate !== null) {
+                return DualKpi.getPointOnOrBefore(chartData, percentCalcEndDate);
+            }
+
+            return chartData[chartData.length - 1];
+        }
+
+        private static getPointOnOrBefore(chartData: Array<IDualKpiDataPoint>, date: Date): IDualKpiDataPoint {
+            let closestIndex = 0,
+                dateTime = date.getTime(),
+                i, currTime;
+
+            // keep track of closest date to configured date
+            // as soon as we find a date that is more recent than configured date
+            // break and use the last date that was older than configured date.
+            // always break if we find a date that is exactly equal
+            for (i = 0; i < chartData.length; i++) {
+                currTime = chartData[i].date.getTime();
+
+                if (currTime === dateTime) {
+                    closestIndex = i;
+                    break;
+                }
+                else if (currTime < dateTime) {
+                    closestIndex = i;
+                }
+                else {
+                    break;
                 }
-                return chartData[closestIndex];
             }
-
-            return chartData[0];
+            return chartData[closestIndex];
         }
 
         private static getFormatSymbol(format: string): string {
@@ -780,16 +2819,203 @@ module powerbi.extensibility.visual {
             }
         }
 
-        private static converter(dataView: DataView): IDualKpiData {
+        /*
+        *   builds the formatter for a chart, a display unit of 0 picks the unit from unitsValue and
+        *   formatSingleValues lets every value pick its own unit instead
+        */
+        private static getValueFormat(format: string, valueAsPercent: boolean, displayUnits: number, decimalPlaces: number, unitsValue: number, formatSingleValues: boolean, cultureSelector: string): IValueFormat {
+            // percent values are scaled back to fractions for the format string, so they keep whole units
+            let units = valueAsPercent ? 1 : displayUnits;
+            let precision = decimalPlaces === null || decimalPlaces === undefined || isNaN(decimalPlaces)
+                ? null
+                : Math.min(Math.max(Math.round(decimalPlaces), 0), 10);
+
+            return {
+                format: format,
+                valueAsPercent: valueAsPercent,
+                displayUnits: units,
+                decimalPlaces: precision,
+                formatter: valueFormatter.create({
+                    format: format,
+                    value: units === 0 ? unitsValue : units,
+                    precision: precision !== null ? precision : undefined,
+                    formatSingleValues: units === 0 && formatSingleValues,
+                    displayUnitSystemType: DisplayUnitSystemType.DataLabels,
+                    cultureSelector: cultureSelector
+                })
+            };
+        }
+
+        // auto follows the abbreviate values setting
+        private static getDisplayUnits(displayUnits: string, abbreviateValues: boolean): number {
+            if (displayUnits === "auto" && !abbreviateValues) {
+                return DualKpi.displayUnits.none;
+            }
+
+            let units: number = DualKpi.displayUnits[displayUnits];
+            return units !== undefined ? units : DualKpi.displayUnits.none;
+        }
+
+        private static getMaxAbsValue(chartData: Array<IDualKpiDataPoint>): number {
+            return d3.max(chartData, (d: IDualKpiDataPoint) => d.value !== null ? Math.abs(d.value) : 0) || 0;
+        }
+
+        /*
+        *   resolves a date expression from the formatting pane, invalid expressions are reported
+        *   through diagnostics and treated as not set
+        */
+        private static resolvePercentCalcDate(expression: string, anchorDate: Date, settingName: string, diagnostics: Array<string>, strings: IDualKpiStrings): Date {
+            let date = DualKpi.parseDateExpression(expression, anchorDate);
+
+            if (date && isNaN(date.getTime())) {
+                diagnostics.push(DualKpi.formatString(strings.invalidDateExpression, settingName, expression));
+                return null;
+            }
+
+            return date;
+        }
+
+        /*
+        *   parses ISO (yyyy-mm-dd, optionally with a THH:MM[:SS] time) and mm/dd/yyyy dates, relative offsets (-30d, -12w, -3m, -1q, -1y)
+        *   and period anchors (start of week/month/quarter/year, WTD/MTD/QTD/YTD, same day last year).
+        *   relative expressions are resolved against the anchor date, returns null for an empty expression
+        *   and an invalid date when the expression can't be parsed
+        */
+        private static parseDateExpression(expression: string, anchorDate: Date): Date {
+            if (expression === null || expression === undefined || String(expression).trim() === "") {
+                return null;
+            }
+
+            let text = String(expression).trim().toLowerCase().replace(/\s+/g, " ");
+            let anchorDay = d3.time.day.floor(anchorDate);
+            let match: RegExpExecArray;
+
+            if (match = /^(\d{4})-(\d{1,2})-(\d{1,2})(?:t(\d{1,2}):(\d{2})(?::(\d{2}))?)?$/.exec(text)) {
+                return new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]), Number(match[4] || 0), Number(match[5] || 0), Number(match[6] || 0));
+            }
+
+            if (match = /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/.exec(text)) {
+                return new Date(Number(match[3]), Number(match[1]) - 1, Number(match[2]));
+            }
+
+            if (match = /^([+-]\d+) ?([dwmqy])$/.exec(text)) {
+                let amount = Number(match[1]);
+                switch (match[2]) {
+                    case "d":
+                        return d3.time.day.offset(anchorDay, amount);
+                    case "w":
+                        return d3.time.week.offset(anchorDay, amount);
+                    case "m":
+                        return d3.time.month.offset(anchorDay, amount);
+                    case "q":
+                        return d3.time.month.offset(anchorDay, amount * 3);
+                    default:
+                        return d3.time.year.offset(anchorDay, amount);
+                }
+            }
+
+            let periodAnchors = {
+                "start of week": "week",
+                "wtd": "week",
+                "start of month": "month",
+                "mtd": "month",
+                "start of quarter": "quarter",
+                "qtd": "quarter",
+                "start of year": "year",
+                "ytd": "year"
+            };
+
+            if (periodAnchors[text]) {
+                return DualKpi.getPeriodStart(anchorDay, periodAnchors[text]);
+            }
+
+            if (text === "same day last year") {
+                return d3.time.year.offset(anchorDay, -1);
+            }
+
+            // anything else the browser understands, as previous versions accepted
+            return new Date(expression);
+        }
+
+        private static getTextMeasureValue(row: DataViewTableRow, col: number, defaultText: string): string {
+            if (col < 0 || row[col] === null || row[col] === undefined) {
+                return defaultText;
+            }
+
+            return String(row[col]);
+        }
+
+        private static getAxisDate(axisValue: PrimitiveValue): Date {
+            if (axisValue === null || axisValue === undefined || axisValue === "") {
+                return null;
+            }
+
+            let date: Date = null;
+            if (axisValue instanceof Date) {
+                date = axisValue;
+            } else if (typeof axisValue === "string" || typeof axisValue === "number") {
+                date = new Date(axisValue);
+            }
+
+            // booleans and unparsable text aren't dates
+            return date && !isNaN(date.getTime()) ? date : null;
+        }
+
+        private static getMeasureValue(row: DataViewTableRow, col: number, valueAsPercent: boolean): number {
+            if (col < 0 || row[col] === null || row[col] === undefined) {
+                return null;
+            }
+
+            let value = Number(row[col]);
+            return valueAsPercent ? value * 100 : value;
+        }
+
+        /*
+        *   fills in the comparison value of each point by shifting the series back in time,
+        *   returns false when no comparison is configured
+        */
+        private static applyComparisonShift(chartData: Array<IDualKpiDataPoint>, comparisonType: string): boolean {
+            if (comparisonType !== "previousPeriod" && comparisonType !== "samePeriodLastYear") {
+                return false;
+            }
+
+            let bisectDate = d3.bisector((d: IDualKpiDataPoint) => { return d.date; }).right;
+
+            for (let i = 0; i < chartData.length; i++) {
+                let comparisonPoint: IDualKpiDataPoint = null;
+
+                if (comparisonType === "previousPeriod") {
+                    comparisonPoint = chartData[i - 1];
+                } else {
+                    let lastYear = new Date(chartData[i].date.getTime());
+                    lastYear.setFullYear(lastYear.getFullYear() - 1);
+
+                    // closest point on or before the same date last year
+                    let index = bisectDate(chartData, lastYear) - 1;
+                    comparisonPoint = index >= 0 ? chartData[index] : null;
+                }
+
+                chartData[i].comparison = comparisonPoint ? comparisonPoint.value : null;
+            }
+
+            return true;
+        }
+
+        private static converter(dataView: DataView, localization: IDualKpiLocalization): IDualKpiData {
             let data = {} as IDualKpiData;
+            let strings = localization.strings;
             let topValueFormatSymbol = "";
             let bottomValueFormatSymbol = "";
+            let topValueFormatString: string = null;
+            let bottomValueFormatString: string = null;
 
             data.topChartName = "";
             data.bottomChartName = "";
             data.topValues = [];
             data.bottomValues = [];
-            data.warningState = 0;
+            data.warningState = null;
+            data.topWarningState = null;
+            data.bottomWarningState = null;
 
             // get formatting pane values
             data.title = DualKpi.getTitleText(dataView);
@@ -800,10 +3026,24 @@ module powerbi.extensibility.visual {
             data.showStaleDataWarning = DualKpi.getShowStaleDataWarning(dataView);
             data.staleDataTooltipText = DualKpi.getStaleDataTooltipText(dataView);
             data.staleDataThreshold = DualKpi.getStaleDataThreshold(dataView);
+            data.staleDataUnit = DualKpi.getStaleDataUnit(dataView);
+            data.weekend = DualKpi.getWeekend(dataView);
 
             data.dataColor = DualKpi.getDataColor(dataView).solid.color;
             data.textColor = DualKpi.getTextColor(dataView).solid.color;
             data.opacity = DualKpi.getOpacity(dataView);
+            data.bottomDataColor = DualKpi.getBottomDataColor(dataView).solid.color;
+            data.bottomTextColor = DualKpi.getBottomTextColor(dataView).solid.color;
+            data.bottomOpacity = DualKpi.getBottomOpacity(dataView);
+            data.topLineWidth = Math.max(0, DualKpi.getTopLineWidth(dataView));
+            data.bottomLineWidth = Math.max(0, DualKpi.getBottomLineWidth(dataView));
+            data.topGradient = DualKpi.getTopGradient(dataView);
+            data.bottomGradient = DualKpi.getBottomGradient(dataView);
+
+            let topBelowZeroColor: Fill = DualKpi.getTopBelowZeroColor(dataView);
+            let bottomBelowZeroColor: Fill = DualKpi.getBottomBelowZeroColor(dataView);
+            data.topBelowZeroColor = topBelowZeroColor && topBelowZeroColor.solid ? topBelowZeroColor.solid.color : null;
+            data.bottomBelowZeroColor = bottomBelowZeroColor && bottomBelowZeroColor.solid ? bottomBelowZeroColor.solid.color : null;
 
             data.topChartAxisMin = DualKpi.getTopChartAxisMin(dataView);
             data.topChartAxisMax = DualKpi.getTopChartAxisMax(dataView);
@@ -814,9 +3054,79 @@ module powerbi.extensibility.visual {
 
             data.topChartType = DualKpi.getTopChartType(dataView);
             data.bottomChartType = DualKpi.getBottomChartType(dataView);
+            data.layout = DualKpi.getLayout(dataView);
+            data.showMinMarker = DualKpi.getShowMinMarker(dataView);
+            data.showMaxMarker = DualKpi.getShowMaxMarker(dataView);
+            data.showLatestMarker = DualKpi.getShowLatestMarker(dataView);
+
+            data.topComparisonType = DualKpi.getTopComparisonType(dataView);
+            data.bottomComparisonType = DualKpi.getBottomComparisonType(dataView);
+
+            data.syncBrush = DualKpi.getSyncBrush(dataView);
+            data.clickToSetPercentDate = DualKpi.getClickToSetPercentDate(dataView);
+
+            data.errorThreshold = DualKpi.getErrorThreshold(dataView);
+            data.warningThreshold = DualKpi.getWarningThreshold(dataView);
+            data.errorColor = DualKpi.getErrorColor(dataView).solid.color;
+            data.warningColor = DualKpi.getWarningColor(dataView).solid.color;
+            data.okColor = DualKpi.getOkColor(dataView).solid.color;
+            data.warningLevelTooltipText = DualKpi.getWarningLevelTooltipText(dataView);
+            data.okTooltipText = DualKpi.getOkTooltipText(dataView);
+            data.showOkState = DualKpi.getShowOkState(dataView);
+
+            data.colorRule = DualKpi.getColorRule(dataView);
+            data.topPolarity = DualKpi.getTopPolarity(dataView);
+            data.bottomPolarity = DualKpi.getBottomPolarity(dataView);
+            data.topGoodThreshold = DualKpi.getTopGoodThreshold(dataView);
+            data.topBadThreshold = DualKpi.getTopBadThreshold(dataView);
+            data.bottomGoodThreshold = DualKpi.getBottomGoodThreshold(dataView);
+            data.bottomBadThreshold = DualKpi.getBottomBadThreshold(dataView);
+            data.goodColor = DualKpi.getGoodColor(dataView).solid.color;
+            data.badColor = DualKpi.getBadColor(dataView).solid.color;
+            data.colorValue = DualKpi.getColorValue(dataView);
+            data.colorPercentChange = DualKpi.getColorPercentChange(dataView);
+            data.colorSeries = DualKpi.getColorSeries(dataView);
+            data.showArrows = DualKpi.getShowArrows(dataView);
+
+            data.granularity = DualKpi.getGranularity(dataView);
+            data.aggregation = DualKpi.getAggregation(dataView);
+            data.topMissingValues = DualKpi.getTopMissingValues(dataView);
+            data.bottomMissingValues = DualKpi.getBottomMissingValues(dataView);
+            data.duplicateAggregation = DualKpi.getDuplicateAggregation(dataView);
+            data.showDiagnostics = DualKpi.getShowDiagnostics(dataView);
+
+            data.topDisplayUnits = DualKpi.getTopDisplayUnits(dataView);
+            data.bottomDisplayUnits = DualKpi.getBottomDisplayUnits(dataView);
+            data.topDecimalPlaces = DualKpi.getTopDecimalPlaces(dataView);
+            data.bottomDecimalPlaces = DualKpi.getBottomDecimalPlaces(dataView);
+
+            data.hoverDateFormat = DualKpi.getHoverDateFormat(dataView);
+            data.hoverDateCustomFormat = DualKpi.getHoverDateCustomFormat(dataView);
+            data.tooltipDateFormat = DualKpi.getTooltipDateFormat(dataView);
+            data.tooltipDateCustomFormat = DualKpi.getTooltipDateCustomFormat(dataView);
+            data.dateRangeFormat = DualKpi.getDateRangeFormat(dataView);
+
+            data.topTrendLine = DualKpi.getTopTrendLine(dataView);
+            data.bottomTrendLine = DualKpi.getBottomTrendLine(dataView);
+            data.topMovingAverage = DualKpi.getTopMovingAverage(dataView);
+            data.bottomMovingAverage = DualKpi.getBottomMovingAverage(dataView);
+            data.topMovingAveragePeriods = Math.max(1, Math.round(DualKpi.getTopMovingAveragePeriods(dataView) || 1));
+            data.bottomMovingAveragePeriods = Math.max(1, Math.round(DualKpi.getBottomMovingAveragePeriods(dataView) || 1));
+            data.topProjection = DualKpi.getTopProjection(dataView);
+            data.bottomProjection = DualKpi.getBottomProjection(dataView);
+
+            data.showAnomalies = DualKpi.getShowAnomalies(dataView);
+            data.anomalyWindow = Math.max(2, Math.round(DualKpi.getAnomalyWindow(dataView) || 2));
+            data.anomalyDeviations = Math.max(0, DualKpi.getAnomalyDeviations(dataView) || 0);
+            data.anomalyColor = DualKpi.getAnomalyColor(dataView).solid.color;
 
             let axisCol = -1, topValuesCol = -1, bottomValuesCol = -1, warningStateCol = -1,
-                topPercentDateCol = -1, bottomPercentDateCol = -1,
+                topWarningStateCol = -1, bottomWarningStateCol = -1,
+                warningTooltipTextCol = -1, staleDataTooltipTextCol = -1, topChartToolTipTextCol = -1, bottomChartToolTipTextCol = -1,
+                topPercentDateCol = -1, bottomPercentDateCol = -1, topPercentEndDateCol = -1, bottomPercentEndDateCol = -1, topTargetCol = -1, bottomTargetCol = -1,
+                topComparisonCol = -1, bottomComparisonCol = -1, asOfDateCol = -1,
+                topLowerBoundCol = -1, topUpperBoundCol = -1, bottomLowerBoundCol = -1, bottomUpperBoundCol = -1,
+                additionalValuesCols: Array<number> = [],
                 rows = [],
                 i;
 
@@ -831,21 +3141,77 @@ module powerbi.extensibility.visual {
                         topValuesCol = i;
                         data.topChartName = col.displayName;
                         topValueFormatSymbol = this.getFormatSymbol(col.format);
+                        topValueFormatString = col.format;
                     }
                     if (col.roles["bottomvalues"]) {
                         bottomValuesCol = i;
                         data.bottomChartName = col.displayName;
                         bottomValueFormatSymbol = this.getFormatSymbol(col.format);
+                        bottomValueFormatString = col.format;
                     }
                     if (col.roles["warningstate"]) {
                         warningStateCol = i;
                     }
+                    if (col.roles["warningtooltiptext"]) {
+                        warningTooltipTextCol = i;
+                    }
+                    if (col.roles["staledatatooltiptext"]) {
+                        staleDataTooltipTextCol = i;
+                    }
+                    if (col.roles["topcharttooltiptext"]) {
+                        topChartToolTipTextCol = i;
+                    }
+                    if (col.roles["bottomcharttooltiptext"]) {
+                        bottomChartToolTipTextCol = i;
+                    }
+                    if (col.roles["topwarningstate"]) {
+                        topWarningStateCol = i;
+                    }
+                    if (col.roles["bottomwarningstate"]) {
+                        bottomWarningStateCol = i;
+                    }
+                    if (col.roles["kpivalues"]) {
+                        additionalValuesCols.push(i);
+                    }
+                    if (col.roles["asofdate"]) {
+                        asOfDateCol = i;
+                    }
                     if (col.roles["toppercentdate"]) {
                         topPercentDateCol = i;
                     }
                     if (col.roles["bottompercentdate"]) {
                         bottomPercentDateCol = i;
                     }
+                    if (col.roles["toppercentenddate"]) {
+                        topPercentEndDateCol = i;
+                    }
+                    if (col.roles["bottompercentenddate"]) {
+                        bottomPercentEndDateCol = i;
+                    }
+                    if (col.roles["toptarget"]) {
+                        topTargetCol = i;
+                    }
+                    if (col.roles["bottomtarget"]) {
+                        bottomTargetCol = i;
+                    }
+                    if (col.roles["topcomparison"]) {
+                        topComparisonCol = i;
+                    }
+                    if (col.roles["bottomcomparison"]) {
+                        bottomComparisonCol = i;
+                    }
+                    if (col.roles["toplowerbound"]) {
+                        topLowerBoundCol = i;
+                    }
+                    if (col.roles["topupperbound"]) {
+                        topUpperBoundCol = i;
+                    }
+                    if (col.roles["bottomlowerbound"]) {
+                        bottomLowerBoundCol = i;
+                    }
+                    if (col.roles["bottomupperbound"]) {
+                        bottomUpperBoundCol = i;
+                    }
                 }
             }
 
@@ -855,37 +3221,174 @@ module powerbi.extensibility.visual {
 
             data.topValueAsPercent = topValueFormatSymbol === "%" ? true : false;
             data.bottomValueAsPercent = bottomValueFormatSymbol === "%" ? true : false;
+            data.topPercentCalcDateBound = topPercentDateCol > -1;
+            data.bottomPercentCalcDateBound = bottomPercentDateCol > -1;
+            data.topValuesBound = topValuesCol > -1;
+            data.bottomValuesBound = bottomValuesCol > -1;
+            data.topHasTarget = topTargetCol > -1;
+            data.bottomHasTarget = bottomTargetCol > -1;
+            data.topHasBand = topLowerBoundCol > -1 || topUpperBoundCol > -1;
+            data.bottomHasBand = bottomLowerBoundCol > -1 || bottomUpperBoundCol > -1;
+
+
+            data.additionalSeries = additionalValuesCols.map((col: number, seriesIndex: number) => DualKpi.createSeries(metadataColumns[col], seriesIndex));
+
+            data.droppedRowCount = 0;
+            data.diagnostics = [];
 
-            // if percent dates are in data use that, otherwise get from formatting pane/default values
-            data.topPercentCalcDate = topPercentDateCol > -1 && rows[0] ? new Date(rows[0][topPercentDateCol]) : new Date(DualKpi.getTopPercentCalcDate(dataView));
-            data.bottomPercentCalcDate = bottomPercentDateCol > -1 && rows[0] ? new Date(rows[0][bottomPercentDateCol]) : new Date(DualKpi.getBottomPercentCalcDate(dataView));
+            // rows may come in any order, single value columns are read from the row with the latest date
+            let latestRow: DataViewTableRow = null;
+            let latestRowDate: Date = null;
 
             for (i = 0; i < rows.length; i++) {
-                let date = axisCol > -1 ? new Date(rows[i][axisCol]) : new Date();
-                let topValue = topValuesCol > -1 ? rows[i][topValuesCol] : 0;
-                let bottomValue = bottomValuesCol > -1 ? rows[i][bottomValuesCol] : 0;
+                let date = axisCol > -1 ? DualKpi.getAxisDate(rows[i][axisCol]) : new Date();
 
-                if (data.topValueAsPercent) {
+                // rows without a valid date can't be placed on the axis
+                if (!date) {
+                    data.droppedRowCount++;
+                    continue;
+                }
+
+                if (!latestRowDate || date.getTime() >= latestRowDate.getTime()) {
+                    latestRow = rows[i];
+                    latestRowDate = date;
+                }
+
+                let topValue = DualKpi.getMeasureValue(rows[i], topValuesCol, false);
+                let bottomValue = DualKpi.getMeasureValue(rows[i], bottomValuesCol, false);
+                let topTarget = DualKpi.getMeasureValue(rows[i], topTargetCol, data.topValueAsPercent);
+                let bottomTarget = DualKpi.getMeasureValue(rows[i], bottomTargetCol, data.bottomValueAsPercent);
+                let topComparison = DualKpi.getMeasureValue(rows[i], topComparisonCol, data.topValueAsPercent);
+                let bottomComparison = DualKpi.getMeasureValue(rows[i], bottomComparisonCol, data.bottomValueAsPercent);
+
+                if (data.topValueAsPercent && topValue !== null) {
                     topValue *= 100;
                 }
 
-                if (data.bottomValueAsPercent) {
+                if (data.bottomValueAsPercent && bottomValue !== null) {
                     bottomValue *= 100;
                 }
 
-                data.topValues.push({
-                    date: date,
-                    value: topValue
-                });
+                // a measure that isn't bound gets no points, so its chart isn't drawn at all
+                if (data.topValuesBound) {
+                    data.topValues.push({
+                        date: date,
+                        value: topValue,
+                        target: topTarget,
+                        comparison: topComparison,
+                        lowerBound: DualKpi.getMeasureValue(rows[i], topLowerBoundCol, data.topValueAsPercent),
+                        upperBound: DualKpi.getMeasureValue(rows[i], topUpperBoundCol, data.topValueAsPercent)
+                    });
+                }
+
+                if (data.bottomValuesBound) {
+                    data.bottomValues.push({
+                        date: date,
+                        value: bottomValue,
+                        target: bottomTarget,
+                        comparison: bottomComparison,
+                        lowerBound: DualKpi.getMeasureValue(rows[i], bottomLowerBoundCol, data.bottomValueAsPercent),
+                        upperBound: DualKpi.getMeasureValue(rows[i], bottomUpperBoundCol, data.bottomValueAsPercent)
+                    });
+                }
+
+                for (let s = 0; s < data.additionalSeries.length; s++) {
+                    data.additionalSeries[s].values.push({
+                        date: date,
+                        value: DualKpi.getMeasureValue(rows[i], additionalValuesCols[s], data.additionalSeries[s].valueAsPercent)
+                    });
+                }
+            }
+
+            if (data.droppedRowCount > 0) {
+                data.diagnostics.push(DualKpi.formatString(data.droppedRowCount === 1 ? strings.droppedRow : strings.droppedRows, data.droppedRowCount));
+            }
+
+            // rows may arrive in any order and with repeated dates
+            data.topValues = DualKpi.mergeDuplicateDates(data.topValues, data.duplicateAggregation);
+            data.bottomValues = DualKpi.mergeDuplicateDates(data.bottomValues, data.duplicateAggregation);
+            data.additionalSeries.forEach((series: IDualKpiSeries) => {
+                series.values = DualKpi.mergeDuplicateDates(series.values, data.duplicateAggregation);
+                series.latestDate = DualKpi.getLatestDefinedDate(series.values);
+            });
+
+            // keep the actual latest date around, resampled points are dated at the start of their period
+            let primaryValues = DualKpi.getPrimaryValues(data);
+            data.latestDate = primaryValues.length > 0 ? primaryValues[primaryValues.length - 1].date : null;
+            data.topLatestDate = DualKpi.getLatestDefinedDate(data.topValues);
+            data.bottomLatestDate = DualKpi.getLatestDefinedDate(data.bottomValues);
+
+            // a bound as-of date replaces the client clock for stale data and "today"
+            data.asOfDate = asOfDateCol > -1 && rows[0] ? DualKpi.getAxisDate(rows[0][asOfDateCol]) : null;
+
+            // if percent dates are in data use that, otherwise resolve the formatting pane expression
+            data.percentCalcDateAnchor = DualKpi.getPercentCalcDateAnchor(dataView);
+            let anchorDate = data.percentCalcDateAnchor === "today" || !data.latestDate ? (data.asOfDate || new Date()) : data.latestDate;
+
+            data.topPercentCalcDate = topPercentDateCol > -1 && rows[0]
+                ? DualKpi.getAxisDate(rows[0][topPercentDateCol])
+                : DualKpi.resolvePercentCalcDate(DualKpi.getTopPercentCalcDate(dataView), anchorDate, DualKpi.settingDisplayNames.topPercentCalcDate, data.diagnostics, strings);
+            data.bottomPercentCalcDate = bottomPercentDateCol > -1 && rows[0]
+                ? DualKpi.getAxisDate(rows[0][bottomPercentDateCol])
+                : DualKpi.resolvePercentCalcDate(DualKpi.getBottomPercentCalcDate(dataView), anchorDate, DualKpi.settingDisplayNames.bottomPercentCalcDate, data.diagnostics, strings);
+            data.topPercentCalcEndDate = topPercentEndDateCol > -1 && rows[0]
+                ? DualKpi.getAxisDate(rows[0][topPercentEndDateCol])
+                : DualKpi.resolvePercentCalcDate(DualKpi.getTopPercentCalcEndDate(dataView), anchorDate, DualKpi.settingDisplayNames.topPercentCalcEndDate, data.diagnostics, strings);
+            data.bottomPercentCalcEndDate = bottomPercentEndDateCol > -1 && rows[0]
+                ? DualKpi.getAxisDate(rows[0][bottomPercentEndDateCol])
+                : DualKpi.resolvePercentCalcDate(DualKpi.getBottomPercentCalcEndDate(dataView), anchorDate, DualKpi.settingDisplayNames.bottomPercentCalcEndDate, data.diagnostics, strings);
+            data.additionalSeries.forEach((series: IDualKpiSeries) => {
+                series.percentCalcDate = DualKpi.resolvePercentCalcDate(series.percentCalcDateExpression, anchorDate,
+                    series.name + " - " + DualKpi.settingDisplayNames.seriesPercentCalcDate, data.diagnostics, strings);
+                series.percentCalcEndDate = DualKpi.resolvePercentCalcDate(series.percentCalcEndDateExpression, anchorDate,
+                    series.name + " - " + DualKpi.settingDisplayNames.seriesPercentCalcEndDate, data.diagnostics, strings);
+            });
+
+            data.topValues = DualKpi.resample(data.topValues, data.granularity, data.aggregation);
+            data.bottomValues = DualKpi.resample(data.bottomValues, data.granularity, data.aggregation);
+
+            DualKpi.fillMissingValues(data.topValues, data.topMissingValues);
+            DualKpi.fillMissingValues(data.bottomValues, data.bottomMissingValues);
+
+            data.additionalSeries.forEach((series: IDualKpiSeries) => {
+                series.values = DualKpi.resample(series.values, data.granularity, data.aggregation);
+                DualKpi.fillMissingValues(series.values, series.missingValues);
+            });
+
+            // automatic display units follow the largest value of each chart
+            data.topValueFormat = DualKpi.getValueFormat(topValueFormatString, data.topValueAsPercent, DualKpi.getDisplayUnits(data.topDisplayUnits, data.abbreviateValues),
+                data.topDecimalPlaces, DualKpi.getMaxAbsValue(data.topValues), true, localization.locale);
+            data.bottomValueFormat = DualKpi.getValueFormat(bottomValueFormatString, data.bottomValueAsPercent, DualKpi.getDisplayUnits(data.bottomDisplayUnits, data.abbreviateValues),
+                data.bottomDecimalPlaces, DualKpi.getMaxAbsValue(data.bottomValues), true, localization.locale);
+            data.additionalSeries.forEach((series: IDualKpiSeries) => {
+                series.valueFormat = DualKpi.getValueFormat(series.format, series.valueAsPercent, DualKpi.getDisplayUnits(series.displayUnits, data.abbreviateValues),
+                    series.decimalPlaces, DualKpi.getMaxAbsValue(series.values), true, localization.locale);
+            });
+
+            // a bound comparison measure wins over the automatic shift of the measure itself
+            data.topHasComparison = topComparisonCol > -1 || DualKpi.applyComparisonShift(data.topValues, data.topComparisonType);
+            data.bottomHasComparison = bottomComparisonCol > -1 || DualKpi.applyComparisonShift(data.bottomValues, data.bottomComparisonType);
 
-                data.bottomValues.push({
-                    date: date,
-                    value: bottomValue
+            if (data.showAnomalies) {
+                DualKpi.detectAnomalies(data.topValues, data.topHasBand, data.anomalyWindow, data.anomalyDeviations);
+                DualKpi.detectAnomalies(data.bottomValues, data.bottomHasBand, data.anomalyWindow, data.anomalyDeviations);
+                data.additionalSeries.forEach((series: IDualKpiSeries) => {
+                    DualKpi.detectAnomalies(series.values, false, data.anomalyWindow, data.anomalyDeviations);
                 });
             }
 
-            if (warningStateCol > -1) {
-                data.warningState = rows[rows.length - 1][warningStateCol];
+            // warning states are single value columns, read from the latest row
+            if (latestRow) {
+                data.warningState = DualKpi.getMeasureValue(latestRow, warningStateCol, false);
+                data.topWarningState = DualKpi.getMeasureValue(latestRow, topWarningStateCol, false);
+                data.bottomWarningState = DualKpi.getMeasureValue(latestRow, bottomWarningStateCol, false);
+
+                // messages computed in the model override the formatting pane text
+                data.warningTooltipText = DualKpi.getTextMeasureValue(latestRow, warningTooltipTextCol, data.warningTooltipText);
+                data.warningLevelTooltipText = DualKpi.getTextMeasureValue(latestRow, warningTooltipTextCol, data.warningLevelTooltipText);
+                data.staleDataTooltipText = DualKpi.getTextMeasureValue(latestRow, staleDataTooltipTextCol, data.staleDataTooltipText);
+                data.topChartToolTipText = DualKpi.getTextMeasureValue(latestRow, topChartToolTipTextCol, data.topChartToolTipText);
+                data.bottomChartToolTipText = DualKpi.getTextMeasureValue(latestRow, bottomChartToolTipTextCol, data.bottomChartToolTipText);
             }
 
             return data;
@@ -918,12 +3421,12 @@ module powerbi.extensibility.visual {
             };
         }
 
-        private updateHoverDataContainer(hoverDataContainer: IHoverDataContainer, chartBottom: number, chartLeft: number, chartWidth: number): void {
+        private updateHoverDataContainer(hoverDataContainer: IHoverDataContainer, chartBottom: number, chartLeft: number, chartWidth: number, textColor: string): void {
             let hoverDate: d3.Selection<SVGElement> = hoverDataContainer.date;
             hoverDate
                 .attr("class", "hover-text date")
                 .classed(this.sizeCssClass, true)
-                .attr("fill", this.data.textColor)
+                .attr("fill", textColor)
                 .text("0");
 
             let hoverValue: d3.Selection<SVGElement> = hoverDataContainer.text;
@@ -931,7 +3434,7 @@ module powerbi.extensibility.visual {
                 .attr("class", "hover-text value")
                 .classed(this.sizeCssClass, true)
                 .attr("transform", "translate(" + (chartWidth / 2) + ",0)")
-                .attr("fill", this.data.textColor)
+                .attr("fill", textColor)
                 .text("0");
 
             let hoverPercent: d3.Selection<SVGElement> = hoverDataContainer.percent;
@@ -939,26 +3442,26 @@ module powerbi.extensibility.visual {
                 .attr("class", "hover-text percent")
                 .classed(this.sizeCssClass, true)
                 .text("0")
-                .attr("fill", this.data.textColor)
+                .attr("fill", textColor)
                 .attr("transform", "translate(" + (chartWidth) + ",0)");
 
             hoverDataContainer.container
                 .attr("transform", "translate(" + 0 + "," + (chartBottom + this.titleSize - 2) + ")");
         }
 
-        private showHoverData(hoverDataContainer: IHoverDataContainer, dataPoint: IDualKpiDataPoint, latestValue: number, valueAsPercent: boolean, abbreviateValue: boolean) {
+        private showHoverData(hoverDataContainer: IHoverDataContainer, dataPoint: IDualKpiDataPoint, latestValue: number, valueAsPercent: boolean, valueFormat: IValueFormat) {
             let hoverDate: d3.Selection<SVGElement> = hoverDataContainer.date;
             hoverDate
                 .datum(dataPoint)
-                .text((d: IDualKpiDataPoint) => this.timeFormatter(d.date));
+                .text((d: IDualKpiDataPoint) => this.hoverDateFormatter(d.date));
 
             let hoverValue: d3.Selection<SVGElement> = hoverDataContainer.text;
             hoverValue
                 .datum(dataPoint)
                 .text((d: IDualKpiDataPoint) => {
-                    let value = abbreviateValue ? this.valueFormatter(d.value) : this.commaNumberFormatter(Math.round(d.value));
-                    if (valueAsPercent) {
-                        return DualKpi.percentFormatter(value / 100);
+                    let value = DualKpi.formatValue(d.value, valueFormat);
+                    if (d.comparison !== null && d.comparison !== undefined) {
+                        value = DualKpi.formatString(this.localization.strings.comparedTo, value, DualKpi.formatValue(d.comparison, valueFormat));
                     }
                     return value;
                 });
@@ -967,10 +3470,15 @@ module powerbi.extensibility.visual {
             hoverPercent
                 .datum(dataPoint)
                 .text((d: IDualKpiDataPoint) => {
-                    if (valueAsPercent) {
-                        return DualKpi.percentFormatter((latestValue - d.value) / 100) + " since";
+                    // anomalies explain their deviation instead
+                    if (d.anomaly) {
+                        return this.getAnomalyText(d, valueFormat);
                     }
-                    return DualKpi.getPercentChange(d.value, latestValue) + " since";
+
+                    let percentChange = valueAsPercent
+                        ? this.percentFormatter((latestValue - d.value) / 100)
+                        : this.getPercentChange(d.value, latestValue);
+                    return DualKpi.formatString(this.localization.strings.since, percentChange);
                 });
 
             this.bottomContainer.bottomContainer.classed("hidden", true);
@@ -979,8 +3487,11 @@ module powerbi.extensibility.visual {
 
         private hideHoverData(hoverDataContainer: IHoverDataContainer, hoverLine?: d3.Selection<SVGElement>) {
             hoverDataContainer.container.classed("invisible", true);
-            this.bottomContainer.bottomContainer.classed("hidden", false);
             hoverLine && hoverLine.classed("hidden", true);
+
+            // side by side charts hover separately, keep the bottom container hidden while the other chart shows hover data
+            let isHovering = this.getChartGroups().some((chartGroup) => !chartGroup.hoverDataContainer.container.classed("invisible"));
+            this.bottomContainer.bottomContainer.classed("hidden", isHovering);
         }
 
         /*
@@ -1008,6 +3519,51 @@ module powerbi.extensibility.visual {
             this.mobileTooltip.classed("hidden", false);
         }
 
+        /*
+        *   offers to store the clicked date as the chart's percent change start date,
+        *   the date is persisted to the formatting pane so it survives reloads and bookmarks
+        */
+        private showPercentDatePrompt(e: MouseEvent, propertyName: string, dataPoint: IDualKpiDataPoint) {
+            if (!this.percentDatePrompt) {
+                this.percentDatePrompt = d3.select(this.target).append("div")
+                    .classed({ "hidden": true, "percent-date-prompt": true });
+
+                // keep the chart behind from starting a brush
+                this.percentDatePrompt.on("mousedown", () => {
+                    (d3.event as MouseEvent).stopPropagation();
+                });
+            }
+
+            // intraday points keep their time, a plain date would resolve to the previous day's last point
+            let isMidnight = dataPoint.date.getTime() === d3.time.day.floor(dataPoint.date).getTime();
+            let properties: DataViewObject = {};
+            properties[propertyName] = d3.time.format(isMidnight ? "%Y-%m-%d" : "%Y-%m-%dT%H:%M:%S")(dataPoint.date);
+
+            this.percentDatePrompt
+                .text(DualKpi.formatString(this.localization.strings.setPercentDate, this.hoverDateFormatter(dataPoint.date)))
+                .style({
+                    "left": e.clientX + "px",
+                    "top": e.clientY + "px"
+                })
+                .on("click", () => {
+                    this.hidePercentDatePrompt();
+                    this.host.persistProperties({
+                        merge: [{
+                            objectName: "dualKpiProperties",
+                            selector: null,
+                            properties: properties
+                        }]
+                    });
+                })
+                .classed("hidden", false);
+        }
+
+        private hidePercentDatePrompt() {
+            window.clearTimeout(this.percentDatePromptTimer);
+            this.percentDatePromptTimer = null;
+            this.percentDatePrompt && this.percentDatePrompt.classed("hidden", true);
+        }
+
         private hideMobileTooltip() {
             this.mobileTooltip.classed("hidden", true);
         }
@@ -1031,33 +3587,55 @@ module powerbi.extensibility.visual {
             }
 
             // add warning icon
-            if (this.data.warningState < 0) {
-                this.createWarningMessage(chartTitleElement, iconY, iconScaleTransform, iconWidth);
+            let warningLevel = this.getWarningLevel(this.data.warningState);
+            if (warningLevel !== null) {
+                this.createWarningMessage(chartTitleElement, warningLevel, iconY, iconScaleTransform, iconWidth);
+            } else {
+                this.hideWarningMessage(chartTitleElement);
+            }
+
+            // add diagnostics icon, left of the info icon
+            let diagnosticWidth = 0;
+            if (this.data.diagnostics.length > 0 && this.data.showDiagnostics) {
+                diagnosticWidth = this.createDiagnosticMessage(iconY, iconScaleTransform, iconWidth, chartWidth);
+            } else {
+                this.hideDiagnosticMessage();
             }
 
             // add info icon
-            if (this.data.topValues.length > 0) {
-                let today = new Date();
-                let dataDaysOld = DualKpi.getDaysBetween(this.data.topValues[this.data.topValues.length - 1].date, today);
-                if (dataDaysOld >= this.data.staleDataThreshold && this.data.showStaleDataWarning) {
+            let primaryValues = DualKpi.getPrimaryValues(this.data);
+            if (primaryValues.length > 0) {
+                let staleSeries = this.getStaleSeriesMessages();
+                if (staleSeries.length > 0 && this.data.showStaleDataWarning) {
                     infoIconShowing = true;
-                    this.createInfoMessage(iconY, iconScaleTransform, iconWidth, chartWidth, dataDaysOld);
+                    this.createInfoMessage(iconY, iconScaleTransform, iconWidth, chartWidth, staleSeries);
                 } else {
                     this.hideInfoMessage();
                 }
 
                 // add day range text
-                let dayRange = DualKpi.getDaysBetween(this.data.topValues[0].date, this.data.topValues[this.data.topValues.length - 1].date);
                 let dayRangeElement = this.bottomContainer.dateRangeText
                 dayRangeElement
                     .attr("class", "date-range-text")
                     .classed(this.sizeCssClass, true)
-                    .text("last " + dayRange + " days");
+                    .text(this.getDateRangeText(primaryValues[0].date, primaryValues[primaryValues.length - 1].date));
 
                 let dayRangeLeft = chartWidth - 8;
                 if (infoIconShowing) {
                     dayRangeLeft -= (iconWidth);// width of icon + 8px padding
+                    this.bottomContainer.diagnostic.group
+                        .attr("transform", "translate(" + (chartWidth - iconWidth - diagnosticWidth - 8) + "," + (iconY) + ")");
                 }
+                dayRangeLeft -= diagnosticWidth;
+
+                // add anomaly count, left of the diagnostics icon
+                let anomalyMessages = this.getAnomalyMessages();
+                if (anomalyMessages.length > 0) {
+                    dayRangeLeft -= this.createAnomalyMessage(iconY, iconScaleTransform, iconWidth, dayRangeLeft + 8, anomalyMessages);
+                } else {
+                    this.hideAnomalyMessage();
+                }
+
                 dayRangeElement.attr("transform", "translate(" + (dayRangeLeft) + ",0)");
             }
 
@@ -1065,16 +3643,48 @@ module powerbi.extensibility.visual {
             this.bottomContainer.bottomContainer.classed("invisible", false);
         }
 
-        private createWarningMessage(chartTitleElement, iconY: number, iconScaleTransform: any, iconWidth: number) {
+        /*
+        *   maps a warning state value to a level, null when there's nothing to show
+        */
+        private getWarningLevel(warningState: number): WarningLevel {
+            if (warningState === null || warningState === undefined) {
+                return null;
+            }
+
+            if (warningState < this.data.errorThreshold) {
+                return WarningLevel.error;
+            }
+
+            if (warningState < this.data.warningThreshold) {
+                return WarningLevel.warning;
+            }
+
+            return this.data.showOkState ? WarningLevel.ok : null;
+        }
+
+        private getWarningLevelStyle(warningLevel: WarningLevel): IWarningLevelStyle {
+            switch (warningLevel) {
+                case WarningLevel.error:
+                    return { icon: DualKpi.warningLevelIcons.error, color: this.data.errorColor, tooltipText: this.data.warningTooltipText };
+                case WarningLevel.warning:
+                    return { icon: DualKpi.warningLevelIcons.warning, color: this.data.warningColor, tooltipText: this.data.warningLevelTooltipText };
+                default:
+                    return { icon: DualKpi.warningLevelIcons.ok, color: this.data.okColor, tooltipText: this.data.okTooltipText };
+            }
+        }
+
+        private createWarningMessage(chartTitleElement, warningLevel: WarningLevel, iconY: number, iconScaleTransform: any, iconWidth: number) {
+            let warningStyle = this.getWarningLevelStyle(warningLevel);
             let warning = this.bottomContainer.warning;
             warning.group
-                .attr("transform", "translate(0," + (iconY) + ")");
+                .attr("transform", "translate(0," + (iconY) + ")")
+                .classed("hidden", false);
 
             let warningIcon = warning.icon;
             warningIcon
                 .attr({
-                    "d": "M24,24H8l8-16L24,24z M9.7,23h12.6L16,10.4L9.7,23z M16.5,19.8h-1v-5.4h1V19.8z M16.5,20.8v1.1h-1v-1.1H16.5z",
-                    "fill": "#E81123",
+                    "d": warningStyle.icon,
+                    "fill": warningStyle.color,
                     "stroke": "transparent",
                     "stroke-width": "5",
                     "class": "warning-icon",
@@ -1084,16 +3694,105 @@ module powerbi.extensibility.visual {
 
             let warningTitle = warning.title;
             warningTitle
-                .text(this.data.warningTooltipText);
+                .text(warningStyle.tooltipText);
 
             // move title over to account for icon
             chartTitleElement.attr("transform", "translate(" + (iconWidth + 6) + ",0)");
 
-            warning.group.on("touchstart", () => this.showMobileTooltip(this.data.warningTooltipText));
+            warning.group.on("touchstart", () => this.showMobileTooltip(warningStyle.tooltipText));
+        }
+
+        private hideWarningMessage(chartTitleElement) {
+            this.bottomContainer.warning.group.classed("hidden", true);
+            chartTitleElement.attr("transform", "translate(0,0)");
+        }
+
+        /*
+        *   per chart warning indicator, drawn just right of the overlay title
+        */
+        private updateChartWarning(chartOverlay: IChartOverlay, warningLevel: WarningLevel, dataTitleRight: number, dataTitleHeight: number): void {
+            let warning = chartOverlay.warning;
+
+            if (warningLevel === null) {
+                warning.group.classed("hidden", true);
+                return;
+            }
+
+            let warningStyle = this.getWarningLevelStyle(warningLevel);
+            let iconScale = dataTitleHeight / 24;
+
+            warning.icon
+                .attr({
+                    "d": warningStyle.icon,
+                    "fill": warningStyle.color,
+                    "stroke": "transparent",
+                    "stroke-width": "5", // fills in path so that title tooltip will show
+                    "transform": "scale(" + iconScale + ")"
+                });
+
+            warning.title
+                .text(warningStyle.tooltipText);
+
+            // icon shapes sit between 8 and 24 in their 32 unit box, line the bottom up with the text baseline
+            warning.group
+                .attr("transform", "translate(" + (dataTitleRight - (8 * iconScale) + 4) + "," + (-24 * iconScale + (dataTitleHeight / 6)) + ")")
+                .classed("hidden", false);
+
+            warning.group.on("touchstart", () => this.showMobileTooltip(warningStyle.tooltipText));
+        }
+
+        private getDateRangeText(startDate: Date, endDate: Date): string {
+            let strings = this.localization.strings;
+
+            if (this.data.dateRangeFormat === "range") {
+                return this.tooltipDateFormatter(startDate) + " \u2013 " + this.tooltipDateFormatter(endDate);
+            }
+
+            // "last N periods" is counted in the resampled periods, auto scales the unit to the length of the range
+            let rangeGranularity = this.data.granularity;
+            if (this.data.dateRangeFormat === "auto") {
+                let days = DualKpi.getDaysBetween(startDate, endDate);
+                rangeGranularity = days >= 730 ? "year" : days >= 60 ? "month" : days >= 14 ? "week" : "none";
+            }
+
+            let periodCount = DualKpi.getPeriodsBetween(startDate, endDate, rangeGranularity);
+            return DualKpi.formatString(strings.lastPeriods, periodCount, DualKpi.getPeriodName(rangeGranularity, strings));
+        }
+
+        /*
+        *   describes each series whose latest value is older than the stale data threshold
+        */
+        private getStaleSeriesMessages(): Array<string> {
+            let strings = this.localization.strings;
+            let referenceDate = this.data.asOfDate || new Date();
+            let ageTemplate = this.data.staleDataUnit === "hours"
+                ? strings.hoursOld
+                : this.data.staleDataUnit === "businessDays" ? strings.businessDaysOld : strings.daysOld;
+
+            let messages: Array<string> = [];
+            let series = [
+                { name: this.data.topChartName, latestDate: this.data.topLatestDate },
+                { name: this.data.bottomChartName, latestDate: this.data.bottomLatestDate }
+            ].concat(this.data.additionalSeries.map((additionalSeries: IDualKpiSeries) => {
+                return { name: additionalSeries.name, latestDate: additionalSeries.latestDate };
+            }));
+
+            series.forEach((s) => {
+                if (!s.latestDate) {
+                    return;
+                }
+
+                let age = DualKpi.getDataAge(s.latestDate, referenceDate, this.data.staleDataUnit, this.data.weekend);
+                if (age >= this.data.staleDataThreshold) {
+                    messages.push(DualKpi.formatString(strings.seriesAge, s.name, DualKpi.formatString(ageTemplate, age)));
+                }
+            });
+
+            return messages;
         }
 
-        private createInfoMessage(iconY: number, iconScaleTransform: any, iconWidth: number, chartWidth: number, dataDaysOld: number) {
-            let infoMessage = "Data is " + dataDaysOld + " days old. " + this.data.staleDataTooltipText;
+        private createInfoMessage(iconY: number, iconScaleTransform: any, iconWidth: number, chartWidth: number, staleSeries: Array<string>) {
+            let infoMessage = staleSeries.join(" ") + " " + this.data.staleDataTooltipText;
             let info = this.bottomContainer.info;
             info.group
                 .attr("transform", "translate(" + (chartWidth - iconWidth - 8) + "," + (iconY) + ")");
@@ -1104,32 +3803,230 @@ module powerbi.extensibility.visual {
                     "d": "M24,16c0,1.4-0.4,2.8-1,4c-0.7,1.2-1.7,2.2-2.9,2.9c-1.2,0.7-2.5,1-4,1s-2.8-0.4-4-1c-1.2-0.7-2.2-1.7-2.9-2.9 C8.4,18.8,8,17.4,8,16c0-1.5,0.4-2.8,1.1-4c0.8-1.2,1.7-2.2,2.9-2.9S14.6,8,16,8s2.8,0.3,4,1.1c1.2,0.7,2.2,1.7,2.9,2.9 C23.6,13.2,24,14.5,24,16z M12.6,22c1.1,0.6,2.2 0.9,3.4,0.9s2.4-0.3,3.5-0.9c1-0.6,1.9-1.5,2.5-2.6c0.6-1,1-2.2,1-3.4 s-0.3-2.4-1-3.5s-1.5-1.9-2.5-2.5c-1.1-0.6-2.2-1-3.5-1s-2.4,0.4-3.4,1c-1.1,0.6-1.9,1.4-2.6,2.5c-0.6,1.1-0.9,2.2-0.9,3.5 c0,1.2,0.3,2.4,0.9,3.4C10.6,20.5,11.4,21.4,12.6,22z M16.5,17.6h-1v-5.4h1V17.6z M16.5 19.7h-1v-1.1h1V19.7z",
                     "fill": "#3599B8",
                     "stroke": "transparent",
-                    "stroke-width": "5", // fills in path so that title tooltip will show
-                    "class": "info-icon",
+                    "stroke-width": "5", // fills in path so that title tooltip will show
+                    "class": "info-icon",
+                    "transform": iconScaleTransform
+                })
+                .classed(this.sizeCssClass, true)
+                .classed("hidden", false);
+
+            let infoTitle = info.title;
+            infoTitle
+                .text(infoMessage);
+
+            info.group.on("touchstart", () => this.showMobileTooltip(infoMessage));
+        }
+
+        private hideInfoMessage() {
+            let info = this.bottomContainer.info;
+            info.icon.classed("hidden", true);
+        }
+
+        /*
+        *   shows data quality problems found while reading the data, returns the width taken up
+        */
+        private createDiagnosticMessage(iconY: number, iconScaleTransform: any, iconWidth: number, chartWidth: number): number {
+            let diagnosticMessage = this.data.diagnostics.join(" ");
+            let diagnostic = this.bottomContainer.diagnostic;
+
+            let diagnosticIcon = diagnostic.icon;
+            diagnosticIcon
+                .attr({
+                    // info icon turned upside down, reads as an exclamation mark
+                    "d": "M24,16c0,1.4-0.4,2.8-1,4c-0.7,1.2-1.7,2.2-2.9,2.9c-1.2,0.7-2.5,1-4,1s-2.8-0.4-4-1c-1.2-0.7-2.2-1.7-2.9-2.9 C8.4,18.8,8,17.4,8,16c0-1.5,0.4-2.8,1.1-4c0.8-1.2,1.7-2.2,2.9-2.9S14.6,8,16,8s2.8,0.3,4,1.1c1.2,0.7,2.2,1.7,2.9,2.9 C23.6,13.2,24,14.5,24,16z M12.6,22c1.1,0.6,2.2 0.9,3.4,0.9s2.4-0.3,3.5-0.9c1-0.6,1.9-1.5,2.5-2.6c0.6-1,1-2.2,1-3.4 s-0.3-2.4-1-3.5s-1.5-1.9-2.5-2.5c-1.1-0.6-2.2-1-3.5-1s-2.4,0.4-3.4,1c-1.1,0.6-1.9,1.4-2.6,2.5c-0.6,1.1-0.9,2.2-0.9,3.5 c0,1.2,0.3,2.4,0.9,3.4C10.6,20.5,11.4,21.4,12.6,22z M16.5,17.6h-1v-5.4h1V17.6z M16.5 19.7h-1v-1.1h1V19.7z",
+                    "fill": "#D9B300",
+                    "stroke": "transparent",
+                    "stroke-width": "5",
+                    "class": "diagnostic-icon",
+                    "transform": iconScaleTransform + " rotate(180 16 16)"
+                })
+                .classed(this.sizeCssClass, true);
+
+            diagnostic.title
+                .text(diagnosticMessage);
+
+            let diagnosticCount = diagnostic.count;
+            diagnosticCount
+                .attr("class", "diagnostic-count")
+                .classed(this.sizeCssClass, true)
+                .attr("transform", "translate(" + (iconWidth + 2) + "," + (-iconY) + ")")
+                .text(this.data.droppedRowCount > 0 ? String(this.data.droppedRowCount) : "");
+
+            let diagnosticWidth = iconWidth + (diagnosticCount.node() as SVGTextElement).getBBox().width + 4;
+            diagnostic.group
+                .attr("transform", "translate(" + (chartWidth - diagnosticWidth - 8) + "," + (iconY) + ")")
+                .classed("hidden", false);
+
+            diagnostic.group.on("touchstart", () => this.showMobileTooltip(diagnosticMessage));
+
+            return diagnosticWidth;
+        }
+
+        private hideDiagnosticMessage() {
+            this.bottomContainer.diagnostic.group.classed("hidden", true);
+        }
+
+        /*
+        *   describes the anomaly count of each chart that has any
+        */
+        private getAnomalyMessages(): Array<string> {
+            let strings = this.localization.strings;
+            let series = [
+                { name: this.data.topChartName, values: this.data.topValues },
+                { name: this.data.bottomChartName, values: this.data.bottomValues }
+            ].concat(this.data.additionalSeries.map((additionalSeries: IDualKpiSeries) => {
+                return { name: additionalSeries.name, values: additionalSeries.values };
+            }));
+
+            let messages: Array<string> = [];
+            series.forEach((s) => {
+                let count = s.values.filter((d: IDualKpiDataPoint) => !!d.anomaly).length;
+                if (count > 0) {
+                    messages.push(s.name + ": " + DualKpi.formatString(count === 1 ? strings.anomaly : strings.anomalies, count) + ".");
+                }
+            });
+
+            return messages;
+        }
+
+        /*
+        *   anomaly dot and total count, placed with its right edge at the given position, returns its width
+        */
+        private createAnomalyMessage(iconY: number, iconScaleTransform: any, iconWidth: number, right: number, anomalyMessages: Array<string>): number {
+            let anomalyMessage = anomalyMessages.join(" ");
+            let anomaly = this.bottomContainer.anomaly;
+            let anomalyTotal = d3.sum([this.data.topValues, this.data.bottomValues]
+                .concat(this.data.additionalSeries.map((s: IDualKpiSeries) => s.values)), (values: Array<IDualKpiDataPoint>) => values.filter((d) => !!d.anomaly).length);
+
+            anomaly.icon
+                .attr({
+                    "d": "M10,16a6,6 0 1,0 12,0a6,6 0 1,0 -12,0z",
+                    "fill": this.data.anomalyColor,
+                    "stroke": "transparent",
+                    "stroke-width": "5",
+                    "class": "anomaly-icon",
                     "transform": iconScaleTransform
                 })
+                .classed(this.sizeCssClass, true);
+
+            anomaly.title
+                .text(anomalyMessage);
+
+            let anomalyCount = anomaly.count;
+            anomalyCount
+                .attr("class", "diagnostic-count")
                 .classed(this.sizeCssClass, true)
+                .attr("transform", "translate(" + (iconWidth + 2) + "," + (-iconY) + ")")
+                .text(String(anomalyTotal));
+
+            let anomalyWidth = iconWidth + (anomalyCount.node() as SVGTextElement).getBBox().width + 4;
+            anomaly.group
+                .attr("transform", "translate(" + (right - anomalyWidth - 8) + "," + (iconY) + ")")
                 .classed("hidden", false);
 
-            let infoTitle = info.title;
-            infoTitle
-                .text(infoMessage);
+            anomaly.group.on("touchstart", () => this.showMobileTooltip(anomalyMessage));
 
-            info.group.on("touchstart", () => this.showMobileTooltip(infoMessage));
+            return anomalyWidth;
         }
 
-        private hideInfoMessage() {
-            let info = this.bottomContainer.info;
-            info.icon.classed("hidden", true);
+        private hideAnomalyMessage() {
+            this.bottomContainer.anomaly.group.classed("hidden", true);
+        }
+
+        /*
+        *   rates the KPI as good, neutral or bad, either by the direction of the percent change
+        *   or by where the latest value falls between the thresholds, taking the chart's polarity into account.
+        *   the rules are formatting pane settings, API 1.3 has no rule-based instances for the "fx" conditional formatting
+        */
+        private getKpiStatus(options: IDualKpiOptions, latestValue: number): KpiStatus {
+            let higherIsBetter = options.polarity !== "lowerIsBetter";
+
+            if (this.data.colorRule === "direction") {
+                let change = options.percentChangeEndPoint.value - options.percentChangeStartPoint.value;
+                if (change === 0) {
+                    return KpiStatus.neutral;
+                }
+
+                return (change > 0) === higherIsBetter ? KpiStatus.good : KpiStatus.bad;
+            }
+
+            if (this.data.colorRule === "thresholds") {
+                let sign = higherIsBetter ? 1 : -1;
+
+                if (options.goodThreshold !== null && sign * (latestValue - options.goodThreshold) >= 0) {
+                    return KpiStatus.good;
+                }
+
+                if (options.badThreshold !== null && sign * (latestValue - options.badThreshold) <= 0) {
+                    return KpiStatus.bad;
+                }
+            }
+
+            return KpiStatus.neutral;
+        }
+
+        private getKpiStatusColor(kpiStatus: KpiStatus, neutralColor: string): string {
+            switch (kpiStatus) {
+                case KpiStatus.good:
+                    return this.data.goodColor;
+                case KpiStatus.bad:
+                    return this.data.badColor;
+                default:
+                    return neutralColor;
+            }
+        }
+
+        // percent values are read multiplied by 100, the format string's % sign multiplies them again
+        private static formatValue(value: number, valueFormat: IValueFormat): string {
+            return valueFormat.formatter.format(valueFormat.valueAsPercent ? value / 100 : value);
+        }
+
+        /*
+        *   describes how far the latest value is from its target, e.g. "+1.2k (+5.0%) vs target"
+        */
+        private getTargetVariance(latestValue: number, target: number, valueAsPercent: boolean, valueFormat: IValueFormat): string {
+            let variance = latestValue - target;
+            let prefix = variance >= 0 ? "+" : "";
+            let varianceText = prefix + DualKpi.formatValue(variance, valueFormat);
+
+            // percent values already show difference in points, percent of a percent isn't meaningful
+            if (!valueAsPercent) {
+                varianceText += " (" + this.getPercentChange(Math.abs(target), Math.abs(target) + variance) + ")";
+            }
+
+            return DualKpi.formatString(this.localization.strings.versusTarget, varianceText);
         }
 
         private drawChart(options: IDualKpiOptions) {
             let target = this.target;
             let chartData: Array<IDualKpiDataPoint> = options.chartData;
             let axisConfig: IAxisConfig = options.axisConfig;
-            const latestValue: number = chartData[chartData.length - 1].value;
+            // nulls never count as the latest value
+            let definedData: Array<IDualKpiDataPoint> = DualKpi.getDefinedPoints(chartData);
+            const latestPoint: IDualKpiDataPoint = definedData[definedData.length - 1];
+            const latestValue: number = latestPoint.value;
+
+            // a brushed range replaces the configured % change range
+            let brushRange = this.brushRanges[this.getBrushKey(options.chartId)];
+            let isBrushed = false;
+
+            if (brushRange) {
+                let brushStartIndex = d3.bisector((d: IDualKpiDataPoint) => { return d.date; }).left(definedData, brushRange.start),
+                    brushStartPoint = definedData[brushStartIndex],
+                    brushEndPoint = DualKpi.getPointOnOrBefore(definedData, brushRange.end);
+
+                if (brushStartPoint && brushStartPoint.date <= brushEndPoint.date) {
+                    options.percentChangeStartPoint = brushStartPoint;
+                    options.percentChangeEndPoint = brushEndPoint;
+                    options.showPercentChangeRange = true;
+                    isBrushed = true;
+                }
+            }
+
+            let kpiStatus: KpiStatus = this.getKpiStatus(options, latestValue);
+            let seriesColor = this.data.colorSeries ? this.getKpiStatusColor(kpiStatus, options.dataColor) : options.dataColor;
 
-            let margin = {
+            let margin: IMargin = {
                 top: 5,
                 right: 0,
                 bottom: 0,
@@ -1145,67 +4042,275 @@ module powerbi.extensibility.visual {
                 minValue = d3.min(chartData, (d) => d.value) || 0,
                 maxValue = d3.max(chartData, (d) => d.value) || 0;
 
+            // keep the target visible on the same scale as the values it is compared against
+            if (options.showTarget) {
+                let minTarget = d3.min(chartData, (d) => d.target),
+                    maxTarget = d3.max(chartData, (d) => d.target);
+
+                if (minTarget !== undefined) {
+                    minValue = Math.min(minValue, minTarget);
+                    maxValue = Math.max(maxValue, maxTarget);
+                }
+            }
+
+            if (options.showComparison) {
+                let minComparison = d3.min(chartData, (d) => d.comparison),
+                    maxComparison = d3.max(chartData, (d) => d.comparison);
+
+                if (minComparison !== undefined) {
+                    minValue = Math.min(minValue, minComparison);
+                    maxValue = Math.max(maxValue, maxComparison);
+                }
+            }
+
+            // the projection extends both the date axis and the value range
+            let projection = options.projection !== "none" ? DualKpi.getProjection(latestPoint, options.projection, this.data.granularity) : null;
+            let lastDate = d3.max(chartData, (d) => d.date);
+            if (projection) {
+                minValue = Math.min(minValue, projection.value);
+                maxValue = Math.max(maxValue, projection.value);
+                lastDate = projection.date;
+            }
+
             let axisMinValue = axisConfig.min !== null ? axisConfig.min : minValue;
             let axisMaxValue = axisConfig.max !== null ? axisConfig.max : maxValue;
 
+            // columns are centered on their date, so half a column is kept free at both ends
+            let chartType = options.chartType;
+            let pointSpace = calcWidth / Math.max(chartData.length, 1);
+            let columnSpace = chartType === "column" ? pointSpace : 0;
+
             let xScale = d3.time.scale()
-                .domain(d3.extent(chartData, (d) => d.date))
-                .range([0, calcWidth]);
+                .domain([d3.min(chartData, (d) => d.date), lastDate])
+                .range([columnSpace / 2, calcWidth - columnSpace / 2]);
 
             let yScale = d3.scale.linear()
                 .domain([axisMinValue, axisMaxValue])
                 .range([calcHeight, 0]);
 
+            // axis labels have little room so they are abbreviated unless the chart uses a fixed display unit
+            // both ticks share the unit picked for the larger end of the axis
+            let valueFormat = options.valueFormat;
+            let axisValueFormat = DualKpi.getValueFormat(valueFormat.format, valueFormat.valueAsPercent,
+                valueFormat.displayUnits === DualKpi.displayUnits.none ? DualKpi.displayUnits.auto : valueFormat.displayUnits,
+                valueFormat.decimalPlaces, Math.max(Math.abs(axisMinValue), Math.abs(axisMaxValue)), false, this.localization.locale);
+
             let yAxis = d3.svg.axis()
                 .scale(yScale)
                 .tickValues([axisMinValue, axisMaxValue])
-                .tickFormat((d) => {
-                    let axisTickLabel: string = String(DualKpi.axisNumberFormatter(d));
-                    if (options.valueAsPercent) {
-                        axisTickLabel = axisTickLabel + "%";
-                    }
-                    return axisTickLabel;
-                })
+                .tickFormat((d) => DualKpi.formatValue(d, axisValueFormat))
                 .orient("left");
 
+            let zeroPointOnAxis = axisMinValue <= 0 && axisMaxValue >= 0 ? true : false;
+            let isFilledChart = chartType === "area" || chartType === "column";
+            let showBelowZeroColor = options.belowZeroColor !== null && options.showZeroLine && zeroPointOnAxis;
+            let showGradient = (isFilledChart && options.gradient) || showBelowZeroColor;
+
+            let chartGroup: IChartGroup = options.element;
+            let seriesPaint = seriesColor;
+            if (showGradient) {
+                this.updateGradient(chartGroup, options, seriesColor, showBelowZeroColor ? yScale(0) : null, calcHeight);
+                seriesPaint = "url(#" + chartGroup.gradientId + ")";
+            }
+
             let seriesRenderer, fill, stroke, strokeWidth;
 
-            if (options.chartType === "area") {
+            // columns and lollipops grow from zero, or from the edge of the chart when zero isn't on the axis
+            let valueBaseline = Math.min(Math.max(yScale(0), 0), calcHeight);
+
+            if (chartType === "area") {
+                // with a below zero color the area is filled towards the zero line from both sides
+                let areaBaseline = showBelowZeroColor ? yScale(0) : calcHeight;
                 seriesRenderer = d3.svg.area()
-                    .x((d: any) => xScale(d.date || new Date()))
-                    .y0(calcHeight)
-                    .y1((d: any) => yScale(d.value || 0));
+                    .defined((d: any) => DualKpi.isDefinedPoint(d))
+                    .x((d: any) => xScale(d.date))
+                    .y0(areaBaseline)
+                    .y1((d: any) => yScale(d.value));
 
-                fill = this.data.dataColor;
+                fill = seriesPaint;
+                stroke = "none";
+                strokeWidth = 0;
+            } else if (chartType === "column") {
+                // narrow columns still keep a pixel between them
+                let columnWidth = columnSpace > 4 ? columnSpace * 0.8 : Math.max(1, columnSpace - 1);
+                seriesRenderer = (data: Array<IDualKpiDataPoint>) => DualKpi.getDefinedPoints(data).map((d) => {
+                    return "M" + (xScale(d.date) - columnWidth / 2) + "," + valueBaseline
+                        + "V" + yScale(d.value) + "h" + columnWidth + "V" + valueBaseline + "Z";
+                }).join("");
+
+                fill = seriesPaint;
                 stroke = "none";
                 strokeWidth = 0;
+            } else if (chartType === "lollipop" || chartType === "dot") {
+                // dots have no stems, their path stays empty
+                seriesRenderer = (data: Array<IDualKpiDataPoint>) => chartType === "dot" ? "" : DualKpi.getDefinedPoints(data).map((d) => {
+                    return "M" + xScale(d.date) + "," + valueBaseline + "V" + yScale(d.value);
+                }).join("");
+
+                fill = "none";
+                stroke = seriesPaint;
+                strokeWidth = Math.max(1, options.lineWidth / 2);
             } else {
                 seriesRenderer = d3.svg.line()
-                    .x((d: any) => xScale(d.date || new Date()))
-                    .y((d: any) => yScale(d.value || 0));
+                    .defined((d: any) => DualKpi.isDefinedPoint(d))
+                    .interpolate(chartType === "step" ? "step-after" : "linear")
+                    .x((d: any) => xScale(d.date))
+                    .y((d: any) => yScale(d.value));
 
                 fill = "none";
-                stroke = this.data.dataColor;
-                strokeWidth = 2;
+                stroke = seriesPaint;
+                strokeWidth = options.lineWidth;
             }
 
-            let chartGroup: IChartGroup = options.element;
             chartGroup.group
-                .attr("transform", "translate(" + margin.left + "," + (options.top + margin.top) + ")");
+                .attr("transform", "translate(" + (options.left + margin.left) + "," + (options.top + margin.top) + ")");
 
             let chartArea: d3.Selection<SVGElement> = chartGroup.area;
             chartArea
                 .datum(chartData)
                 .attr({
-                    "style": "opacity: " + (this.data.opacity / 100),
+                    "style": "opacity: " + (options.opacity / 100),
                     "fill": fill,
                     "stroke": stroke,
                     "stroke-width": strokeWidth,
                     "d": seriesRenderer as any
                 });
 
+            let showMarkers = chartType === "lollipop" || chartType === "dot";
+            let markerRadius = Math.max(1.5, Math.min(options.lineWidth + 1, pointSpace / 2));
+            let markers = chartGroup.markers
+                .attr("style", "opacity: " + (options.opacity / 100))
+                .selectAll("circle")
+                .data(showMarkers ? definedData : []);
+
+            markers
+                .enter()
+                .append("circle");
+
+            markers
+                .attr({
+                    "cx": (d: IDualKpiDataPoint) => xScale(d.date),
+                    "cy": (d: IDualKpiDataPoint) => yScale(d.value),
+                    "r": markerRadius,
+                    "fill": seriesPaint
+                });
+
+            markers
+                .exit()
+                .remove();
+
+            let comparisonLine: d3.Selection<SVGElement> = chartGroup.comparisonLine;
+            if (options.showComparison) {
+                let comparisonRenderer = d3.svg.line()
+                    .defined((d: any) => d.comparison !== null && d.comparison !== undefined)
+                    .x((d: any) => xScale(d.date))
+                    .y((d: any) => yScale(d.comparison));
+
+                comparisonLine
+                    .datum(chartData)
+                    .classed("hidden", false)
+                    .attr({
+                        "stroke": options.dataColor,
+                        "d": comparisonRenderer as any
+                    });
+            } else {
+                comparisonLine
+                    .classed("hidden", true);
+            }
+
+            let targetLine: d3.Selection<SVGElement> = chartGroup.targetLine;
+            if (options.showTarget) {
+                let targetRenderer = d3.svg.line()
+                    .defined((d: any) => d.target !== null && d.target !== undefined)
+                    .x((d: any) => xScale(d.date))
+                    .y((d: any) => yScale(d.target));
+
+                targetLine
+                    .datum(chartData)
+                    .classed("hidden", false)
+                    .attr({
+                        "stroke": options.textColor,
+                        "d": targetRenderer as any
+                    });
+            } else {
+                targetLine
+                    .classed("hidden", true);
+            }
+
+            // analytics lines are described in the overlay tooltip
+            let analyticsText: Array<string> = [];
+            let strings = this.localization.strings;
+            let lineRenderer = d3.svg.line()
+                .x((d: any) => xScale(d.date))
+                .y((d: any) => yScale(d.value));
+
+            let trendPoints = options.trendLine === "range"
+                ? definedData.filter((d) => d.date >= options.percentChangeStartPoint.date && d.date <= options.percentChangeEndPoint.date)
+                : definedData;
+            let trend = options.trendLine !== "none" ? DualKpi.getLinearTrend(trendPoints) : null;
+
+            let trendLine: d3.Selection<SVGElement> = chartGroup.trendLine;
+            if (trend) {
+                let trendStart = trendPoints[0].date,
+                    trendEnd = trendPoints[trendPoints.length - 1].date,
+                    getTrendValue = (date: Date) => trend.intercept + trend.slope * date.getTime();
+
+                trendLine
+                    .datum([{ date: trendStart, value: getTrendValue(trendStart) }, { date: trendEnd, value: getTrendValue(trendEnd) }])
+                    .classed("hidden", false)
+                    .attr({
+                        "stroke": options.textColor,
+                        "d": lineRenderer as any
+                    });
+
+                let trendChange = getTrendValue(trendEnd) - getTrendValue(trendStart);
+                analyticsText.push(DualKpi.formatString(strings.trend,
+                    (trendChange > 0 ? "+" : "") + DualKpi.formatValue(trendChange, options.valueFormat),
+                    DualKpi.getPeriodsBetween(trendStart, trendEnd, this.data.granularity),
+                    DualKpi.getPeriodName(this.data.granularity, strings)));
+            } else {
+                trendLine
+                    .classed("hidden", true);
+            }
+
+            let movingAverage = options.movingAverage !== "none"
+                ? DualKpi.getMovingAverage(definedData, options.movingAveragePeriods, options.movingAverage)
+                : [];
+
+            let movingAverageLine: d3.Selection<SVGElement> = chartGroup.movingAverageLine;
+            if (movingAverage.length > 0) {
+                movingAverageLine
+                    .datum(movingAverage)
+                    .classed("hidden", false)
+                    .attr({
+                        "stroke": options.textColor,
+                        "d": lineRenderer as any
+                    });
+
+                analyticsText.push(DualKpi.formatString(strings.movingAverage,
+                    options.movingAveragePeriods,
+                    DualKpi.formatValue(movingAverage[movingAverage.length - 1].value, options.valueFormat)));
+            } else {
+                movingAverageLine
+                    .classed("hidden", true);
+            }
+
+            let projectionLine: d3.Selection<SVGElement> = chartGroup.projectionLine;
+            if (projection) {
+                projectionLine
+                    .datum([latestPoint, projection])
+                    .classed("hidden", false)
+                    .attr({
+                        "stroke": seriesColor,
+                        "stroke-width": Math.max(1, options.lineWidth),
+                        "d": lineRenderer as any
+                    });
+            } else {
+                projectionLine
+                    .classed("hidden", true);
+            }
+
             let zeroAxis: d3.Selection<SVGElement> = chartGroup.zeroAxis;
-            let zeroPointOnAxis = axisMinValue <= 0 && axisMaxValue >= 0 ? true : false;
 
             // DRAW line for x axis at zero position
             // if formatting option for zero line set to true
@@ -1246,27 +4351,28 @@ module powerbi.extensibility.visual {
             let chartLeft = margin.left;
 
             let hoverDataContainer: IHoverDataContainer = options.element.hoverDataContainer;
-            this.updateHoverDataContainer(hoverDataContainer, chartBottom, chartLeft, calcWidth);
+            this.updateHoverDataContainer(hoverDataContainer, chartBottom, chartLeft, calcWidth, options.textColor);
 
             let onMousemove = (e: any) => {
-                let leftPosition = e.clientX - margin.left;
+                let leftPosition = e.clientX - (options.left + margin.left);
                 let topPosition = e.clientY;
 
                 if (e.type === "touchmove" || e.type === "touchstart") {
-                    leftPosition = e.touches[0].clientX - this.chartLeftMargin;
+                    leftPosition = e.touches[0].clientX - (options.left + this.chartLeftMargin);
                     topPosition = e.touches[0].clientY;
                 }
 
-                if (leftPosition > 0 && leftPosition < options.width && topPosition < (options.height * 2 + 15)) {
+                if (leftPosition > 0 && leftPosition < calcWidth && topPosition >= options.hoverTop && topPosition < options.hoverBottom) {
                     hoverLine.classed("hidden", false);
                     hoverLine.attr("transform", "translate(" + leftPosition + ",0)");
 
+                    // snap to the nearest point with a value, skipping missing ones
                     let x = xScale.invert(leftPosition)
-                    let i = this.dataBisector(chartData, x, 1);
-                    let dataPoint = chartData[i];
+                    let i = Math.min(this.dataBisector(definedData, x, 1), definedData.length - 1);
+                    let dataPoint = definedData[i];
 
                     if (dataPoint) {
-                        this.showHoverData(hoverDataContainer, dataPoint, latestValue, options.valueAsPercent, options.abbreviateValue);
+                        this.showHoverData(hoverDataContainer, dataPoint, latestValue, options.valueAsPercent, options.valueFormat);
                     }
                 }
                 else {
@@ -1284,39 +4390,369 @@ module powerbi.extensibility.visual {
                 target.removeEventListener("touchstart", onMousemove);
             });
 
-            this.addOverlayText(options, latestValue, calcHeight, calcWidth);
+            this.initBrushEvents(options, xScale, margin, calcWidth, calcHeight, (e: MouseEvent, date: Date) => {
+                // the second click of a double click clears the brush instead, so the prompt waits for it
+                if (options.percentCalcDateProperty && e.detail <= 1) {
+                    let i = Math.min(this.dataBisector(definedData, date, 1), definedData.length - 1);
+                    window.clearTimeout(this.percentDatePromptTimer);
+                    this.percentDatePromptTimer = window.setTimeout(() => {
+                        this.percentDatePromptTimer = null;
+                        this.showPercentDatePrompt(e, options.percentCalcDateProperty, definedData[i]);
+                    }, 300);
+                }
+            });
+
+            let brushRect: d3.Selection<SVGElement> = chartGroup.brushRect;
+            brushRect.classed("hidden", true);
+
+            if (isBrushed) {
+                let brushLeft = Math.max(0, xScale(brushRange.start)),
+                    brushRight = Math.min(calcWidth, xScale(brushRange.end));
+
+                brushRect
+                    .classed("hidden", false)
+                    .attr({
+                        "x": brushLeft,
+                        "width": Math.max(0, brushRight - brushLeft),
+                        "height": calcHeight
+                    });
+            }
+
+            this.addOverlayText(options, latestPoint, kpiStatus, calcHeight, calcWidth, analyticsText, projection);
+            this.drawAnomalyMarkers(options, definedData, xScale, yScale);
+            this.drawPointMarkers(options, definedData, xScale, yScale, seriesColor, calcWidth);
+        }
+
+        private drawAnomalyMarkers(options: IDualKpiOptions, definedData: Array<IDualKpiDataPoint>, xScale: d3.time.Scale<number, number>, yScale: d3.scale.Linear<number, number>): void {
+            let markers = options.element.anomalyMarkers
+                .selectAll("circle")
+                .data(definedData.filter((d: IDualKpiDataPoint) => !!d.anomaly));
+
+            markers
+                .enter()
+                .append("circle");
+
+            markers
+                .attr({
+                    "cx": (d: IDualKpiDataPoint) => xScale(d.date),
+                    "cy": (d: IDualKpiDataPoint) => yScale(d.value),
+                    "r": 4,
+                    "fill": this.data.anomalyColor
+                });
+
+            markers
+                .exit()
+                .remove();
+        }
+
+        /*
+        *   how far a point is outside its expected range
+        */
+        private getAnomalyText(dataPoint: IDualKpiDataPoint, valueFormat: IValueFormat): string {
+            let strings = this.localization.strings,
+                anomaly = dataPoint.anomaly;
+
+            if (anomaly.upper !== null && dataPoint.value > anomaly.upper) {
+                return DualKpi.formatString(strings.aboveExpected, DualKpi.formatValue(dataPoint.value - anomaly.upper, valueFormat), DualKpi.formatValue(anomaly.upper, valueFormat));
+            }
+
+            return DualKpi.formatString(strings.belowExpected, DualKpi.formatValue(anomaly.lower - dataPoint.value, valueFormat), DualKpi.formatValue(anomaly.lower, valueFormat));
+        }
+
+        /*
+        *   marks the min, max and latest points with a dot and their value,
+        *   labels that would cover the overlay text are moved to the other side of the dot or left out
+        */
+        private drawPointMarkers(options: IDualKpiOptions, definedData: Array<IDualKpiDataPoint>, xScale: d3.time.Scale<number, number>, yScale: d3.scale.Linear<number, number>, seriesColor: string, calcWidth: number): void {
+            let markedPoints: Array<IDualKpiDataPoint> = [];
+            let addPoint = (point: IDualKpiDataPoint) => {
+                if (point && markedPoints.indexOf(point) === -1) {
+                    markedPoints.push(point);
+                }
+            };
+
+            let minPoint = definedData.reduce((min, d) => d.value < min.value ? d : min, definedData[0]);
+            let maxPoint = definedData.reduce((max, d) => d.value > max.value ? d : max, definedData[0]);
+
+            this.data.showMaxMarker && addPoint(maxPoint);
+            this.data.showMinMarker && addPoint(minPoint);
+            this.data.showLatestMarker && addPoint(definedData[definedData.length - 1]);
+
+            let markers = options.element.pointMarkers
+                .selectAll("g")
+                .data(markedPoints);
+
+            let newMarkers = markers
+                .enter()
+                .append("g");
+
+            newMarkers.append("circle");
+            newMarkers.append("text");
+
+            markers
+                .exit()
+                .remove();
+
+            markers
+                .attr("transform", (d: IDualKpiDataPoint) => "translate(" + xScale(d.date) + "," + yScale(d.value) + ")");
+
+            markers
+                .select("circle")
+                .attr({
+                    "r": 3,
+                    "fill": seriesColor
+                });
+
+            // labels go below the lowest point and above the others, at the edges they are aligned inwards
+            let labels = markers
+                .select("text")
+                .attr("class", "marker-label")
+                .classed(this.sizeCssClass, true)
+                .attr({
+                    "fill": options.textColor,
+                    "text-anchor": (d: IDualKpiDataPoint) => {
+                        let x = xScale(d.date);
+                        return x < calcWidth * 0.15 ? "start" : x > calcWidth * 0.85 ? "end" : "middle";
+                    }
+                })
+                .text((d: IDualKpiDataPoint) => DualKpi.formatValue(d.value, options.valueFormat));
+
+            let overlayBox = (options.element.chartOverlay.group.node() as SVGGElement).getBoundingClientRect();
+            labels.each(function (point: IDualKpiDataPoint) {
+                let node = this as SVGTextElement;
+                let below = point === minPoint && point !== maxPoint;
+                let label = d3.select(node);
+
+                // keep the label inside the chart
+                if (yScale(point.value) < 16) {
+                    below = true;
+                }
+
+                label
+                    .classed("hidden", false)
+                    .attr("y", below ? 14 : -6);
+
+                if (DualKpi.isOverlapping(node.getBoundingClientRect(), overlayBox)) {
+                    label.attr("y", below ? -6 : 14);
+                    label.classed("hidden", DualKpi.isOverlapping(node.getBoundingClientRect(), overlayBox));
+                }
+            });
+        }
+
+        private static isOverlapping(a: ClientRect, b: ClientRect): boolean {
+            return a.left < b.right && b.left < a.right && a.top < b.bottom && b.top < a.bottom;
         }
 
-        private addOverlayText(options: IDualKpiOptions, latestValue: number, calcHeight: number, calcWidth: number): void {
-            let chartData: Array<IDualKpiDataPoint> = options.chartData;
+        /*
+        *   click-drag across a chart to brush a date range for the percent change
+        */
+        private initBrushEvents(options: IDualKpiOptions, xScale: d3.time.Scale<number, number>, margin: IMargin, calcWidth: number, calcHeight: number, onClick: (e: MouseEvent, date: Date) => void): void {
+            let target = this.target;
+            let brushRect: d3.Selection<SVGElement> = options.element.brushRect;
+            let brushStartX: number = null;
+
+            let getChartX = (e: MouseEvent) => Math.max(0, Math.min(calcWidth, e.clientX - (options.left + margin.left)));
+
+            let onMousedown = (e: MouseEvent) => {
+                this.hidePercentDatePrompt();
+
+                let leftPosition = e.clientX - (options.left + margin.left);
+                let topPosition = e.clientY - (options.top + margin.top);
+
+                if (e.button === 0 && leftPosition > 0 && leftPosition < calcWidth && topPosition > 0 && topPosition < calcHeight) {
+                    brushStartX = leftPosition;
+                    e.preventDefault(); // don't select text while dragging
+                }
+            };
+
+            let onMousemove = (e: MouseEvent) => {
+                if (brushStartX === null) {
+                    return;
+                }
+
+                // the button was released outside the visual, drop the drag and show the brushed range again
+                if (e.buttons === 0) {
+                    let wasDragged = !brushRect.classed("hidden");
+                    brushStartX = null;
+                    brushRect.classed("hidden", true);
+                    if (wasDragged) {
+                        this.update(this.updateOptions);
+                    }
+                    return;
+                }
+
+                let leftPosition = getChartX(e);
+                if (Math.abs(leftPosition - brushStartX) < 4) {
+                    return;
+                }
+
+                brushRect
+                    .classed("hidden", false)
+                    .attr({
+                        "x": Math.min(brushStartX, leftPosition),
+                        "width": Math.abs(leftPosition - brushStartX),
+                        "height": calcHeight
+                    });
+            };
+
+            let onMouseup = (e: MouseEvent) => {
+                if (brushStartX === null) {
+                    return;
+                }
+
+                let startX = brushStartX,
+                    endX = getChartX(e);
+
+                brushStartX = null;
+
+                // too short to be a drag, treat as a click on the chart
+                if (Math.abs(endX - startX) < 4) {
+                    onClick(e, xScale.invert(endX));
+                    return;
+                }
+
+                this.setBrushRange(options.chartId, {
+                    start: xScale.invert(Math.min(startX, endX)),
+                    end: xScale.invert(Math.max(startX, endX))
+                });
+            };
+
+            target.addEventListener("mousedown", onMousedown);
+            target.addEventListener("mousemove", onMousemove);
+            target.addEventListener("mouseup", onMouseup);
+
+            this.addClearEvents(() => {
+                target.removeEventListener("mousedown", onMousedown);
+                target.removeEventListener("mousemove", onMousemove);
+                target.removeEventListener("mouseup", onMouseup);
+            });
+        }
+
+        private updateGradient(chartGroup: IChartGroup, options: IDualKpiOptions, seriesColor: string, zeroPosition: number, calcHeight: number): void {
+            // area and column gradients fade out towards the bottom of the chart
+            let fade = (options.chartType === "area" || options.chartType === "column") && options.gradient;
+            let getStopOpacity = (offset: number) => fade ? 1 - offset * 0.8 : 1;
+
+            let stops = [
+                { offset: 0, color: seriesColor },
+                { offset: 1, color: seriesColor }
+            ];
+
+            // hard stops at the zero line switch to the below zero color
+            if (zeroPosition !== null && calcHeight > 0) {
+                let zeroOffset = Math.min(Math.max(zeroPosition / calcHeight, 0), 1);
+                stops = [
+                    { offset: 0, color: seriesColor },
+                    { offset: zeroOffset, color: seriesColor },
+                    { offset: zeroOffset, color: options.belowZeroColor },
+                    { offset: 1, color: options.belowZeroColor }
+                ];
+            }
+
+            chartGroup.gradient
+                .attr({
+                    "y1": 0,
+                    "y2": calcHeight
+                });
+
+            let gradientStops = chartGroup.gradient
+                .selectAll("stop")
+                .data(stops);
+
+            gradientStops
+                .enter()
+                .append("stop");
+
+            gradientStops
+                .attr({
+                    "offset": (d) => d.offset,
+                    "stop-color": (d) => d.color,
+                    "stop-opacity": (d) => getStopOpacity(d.offset)
+                });
+
+            gradientStops
+                .exit()
+                .remove();
+        }
+
+        private addOverlayText(options: IDualKpiOptions, latestPoint: IDualKpiDataPoint, kpiStatus: KpiStatus, calcHeight: number, calcWidth: number, analyticsText: Array<string>, projection: IDualKpiDataPoint): void {
             let chartGroup: IChartGroup = options.element;
+            let latestValue: number = latestPoint.value;
+
+            let startPoint = options.percentChangeStartPoint,
+                endPoint = options.percentChangeEndPoint;
 
-            let percentChange = DualKpi.getPercentChange(options.percentChangeStartPoint.value, chartData[chartData.length - 1].value);
-            let formattedValue = options.abbreviateValue ? this.valueFormatter(latestValue) : this.commaNumberFormatter(Math.round(latestValue));
+            let percentChange = this.getPercentChangeText(startPoint.value, endPoint.value, options.valueAsPercent);
+            let formattedValue = DualKpi.formatValue(latestValue, options.valueFormat);
+            let percentChangeRange = DualKpi.formatString(this.localization.strings.dateRange, this.tooltipDateFormatter(startPoint.date), this.tooltipDateFormatter(endPoint.date));
 
-            if (options.valueAsPercent) {
-                formattedValue = DualKpi.percentFormatter(latestValue / 100);
-                // if value is a percent, only show difference changed, not percent of percent
-                percentChange = DualKpi.percentFormatter((chartData[chartData.length - 1].value - options.percentChangeStartPoint.value) / 100, true);
+            if (this.data.showArrows && endPoint.value !== startPoint.value) {
+                percentChange = (endPoint.value > startPoint.value ? "\u25B2 " : "\u25BC ") + percentChange;
             }
 
+            let statusColor = this.getKpiStatusColor(kpiStatus, options.textColor);
+
             let chartOverlay: IChartOverlay = chartGroup.chartOverlay;
             let dataTitle = chartOverlay.title;
             dataTitle
                 .classed("invisible", true)
                 .attr("class", "data-title")
                 .classed(this.sizeCssClass, true)
-                .attr("fill", this.data.textColor)
-                .text(options.chartTitle + " (" + percentChange + ")");
+                .attr("fill", options.textColor)
+                .text(options.chartTitle + " (");
+
+            // percent change gets its own span so it can be colored separately
+            dataTitle
+                .append("tspan")
+                .attr("fill", this.data.colorPercentChange ? statusColor : options.textColor)
+                .text(percentChange);
+
+            dataTitle
+                .append("tspan")
+                .text((options.showPercentChangeRange ? " " + percentChangeRange : "") + ")");
 
             let dataValue = chartOverlay.text;
             dataValue
                 .classed("invisible", true)
                 .attr("class", "data-value")
                 .classed(this.sizeCssClass, true)
-                .attr("fill", this.data.textColor)
+                .attr("fill", this.data.colorValue ? statusColor : options.textColor)
                 .text(formattedValue);
 
+            let latestTarget = latestPoint.target;
+            let targetVarianceDesc = "";
+            let targetText = chartOverlay.targetText;
+            if (options.showTarget && latestTarget !== null && latestTarget !== undefined) {
+                targetVarianceDesc = this.getTargetVariance(latestValue, latestTarget, options.valueAsPercent, options.valueFormat);
+                targetText
+                    .attr("class", "target-text")
+                    .classed(this.sizeCssClass, true)
+                    .attr("fill", options.textColor)
+                    .text(targetVarianceDesc);
+            } else {
+                targetText
+                    .classed("hidden", true);
+            }
+
+            // the projection is compared against the latest target, the target for the period end isn't known yet
+            let projectionDesc = "";
+            let projectionText = chartOverlay.projectionText;
+            if (projection) {
+                projectionDesc = DualKpi.formatString(this.localization.strings.projected, DualKpi.formatValue(projection.value, options.valueFormat));
+                if (options.showTarget && latestTarget !== null && latestTarget !== undefined) {
+                    projectionDesc += ", " + this.getTargetVariance(projection.value, latestTarget, options.valueAsPercent, options.valueFormat);
+                }
+
+                projectionText
+                    .attr("class", "target-text")
+                    .classed(this.sizeCssClass, true)
+                    .attr("fill", options.textColor)
+                    .text(projectionDesc);
+            } else {
+                projectionText
+                    .classed("hidden", true);
+            }
+
             let dataTitleHorzCentering = calcWidth / 2;
             let dataValueHorzCentering = calcWidth / 2;
             let verticalMargin = DualKpi.DefaultValueSizes[this.sizeCssClass];
@@ -1334,13 +4770,34 @@ module powerbi.extensibility.visual {
             dataTitle.classed("invisible", false);
             dataValue.classed("invisible", false);
 
+            // place variance to target just right of the centered value
+            let dataValueBBoxWidth = (dataValue.node() as SVGTextElement).getBBox().width;
+            targetText.attr("transform", `translate(${dataValueHorzCentering + (dataValueBBoxWidth / 2) + 6}, ${verticalMargin})`);
+
+            // projection goes on its own line below the value
+            if (projection) {
+                let projectionTextHeight = (projectionText.node() as SVGTextElement).getBBox().height;
+                projectionText.attr("transform", `translate(${dataValueHorzCentering}, ${verticalMargin + projectionTextHeight + 2})`);
+            }
+
             // set rect dimensions
             // add rect to overlay section so that tooltip shows up more easily
             let overlayRect: d3.Selection<SVGElement> = chartOverlay.rect;
 
             // add tooltip
-            let percentChangeDesc = percentChange + " change since " + this.timeFormatter(options.percentChangeStartPoint.date);
+            let percentChangeDesc = options.showPercentChangeRange
+                ? DualKpi.formatString(this.localization.strings.changeRange, percentChange, percentChangeRange)
+                : DualKpi.formatString(this.localization.strings.changeSince, percentChange, this.tooltipDateFormatter(startPoint.date));
             let overlayTooltipText = options.tooltipText + " " + percentChangeDesc;
+            if (targetVarianceDesc) {
+                overlayTooltipText += ". " + targetVarianceDesc;
+            }
+            if (projectionDesc) {
+                overlayTooltipText += ". " + projectionDesc;
+            }
+            analyticsText.forEach((text: string) => {
+                overlayTooltipText += ". " + text;
+            });
 
             let overlayTooltip: d3.Selection<SVGElement> = chartOverlay.rectTitle;
 
@@ -1352,6 +4809,8 @@ module powerbi.extensibility.visual {
             let dataTitleHeight = (dataTitle.node() as SVGTextElement).getBBox().height;
             let dataValueHeight = (dataValue.node() as SVGTextElement).getBBox().height;
 
+            this.updateChartWarning(chartOverlay, options.warningLevel, dataTitleHorzCentering + (dataTitleWidth / 2), dataTitleHeight);
+
             // set width, height, and position of overlay rect
             // this rect support capturing touch events to show mobile tooltips
             overlayRect